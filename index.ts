@@ -1,19 +1,28 @@
 /**
- * OpenCode Plugin Template - Request Interception Base
+ * OpenCode Context Pruning Plugin
  * 
- * This plugin provides the infrastructure to intercept and modify API requests
- * before they are sent to model providers. It extracts the core functionality
- * from the DCP (Dynamic Context Pruning) plugin without the pruning logic.
+ * This plugin intercepts API requests before they are sent to model providers
+ * and removes tool outputs that are no longer useful to the model, based on
+ * the DCP (Dynamic Context Pruning) plugin.
  * 
- * Usage:
- * 1. Implement your custom logic in the `myRequestInterceptor` function
- * 2. The interceptor receives the parsed request body, detected format, and tool outputs
- * 3. Return { body, modified: true } to modify the request, or { body, modified: false } to pass through
+ * How it works:
+ * 1. The fetch wrapper detects the request format and extracts tool outputs
+ * 2. The janitor tracks every tool output a session sends to the model
+ * 3. Older copies of repeated tool calls (same tool and parameters) are deduplicated, and
+ *    reads of files that were edited or written since are marked as stale
+ * 4. When the session goes idle, stale outputs are marked as pruned (and optionally
+ *    summarized by a cheaper model)
+ * 5. The model can list its tool outputs and prune them itself with the context_prune tool
+ * 6. Pruned outputs are replaced with a short placeholder on every later request
+ * 7. Oversized outputs keep their head and tail; the model can read the rest with context_retrieve
+ * 8. Requests nearing their model's context limit are truncated, summarized and trimmed
+ * 9. The /context command reports what takes up a session's context window, without prompting the model
+ * 10. Outputs of protected tools and paths, and outputs pinned with context_pin, are never modified
  * 
  * Supported API formats:
  * - OpenAI Chat Completions
  * - OpenAI Responses API
- * - Anthropic (via OpenAI-compatible format)
+ * - Anthropic Messages API
  * - Google Gemini
  * - AWS Bedrock Converse
  */
@@ -21,128 +30,178 @@
 import type { Plugin } from "@opencode-ai/plugin"
 import { Logger } from "./lib/logger"
 import { createPluginState } from "./lib/state"
-import { 
-    installFetchWrapper, 
-    replaceToolOutput, 
-    injectIntoLastUserMessage,
-    appendUserMessage,
-    type RequestInterceptor,
-    type FormatDescriptor,
-    type ToolOutput,
-    type FetchHandlerContext
-} from "./lib/fetch-wrapper"
-import { createEventHandler, createChatParamsHandler } from "./lib/hooks"
-import { defaultConfig, type PluginConfig } from "./lib/config"
+import { installFetchWrapper, InterceptorChain } from "./lib/fetch-wrapper"
+import { Janitor, createJanitorInterceptor } from "./lib/core/janitor"
+import { createJsonRedactor, createRedactionInterceptor } from "./lib/core/redaction"
+import { BudgetManager, createBudgetInterceptor } from "./lib/core/budget"
+import { createTruncationInterceptor } from "./lib/core/truncation"
+import { OutputStore, getOutputStoreDirectory } from "./lib/core/output-store"
+import { Summarizer, createClientSummaryModel } from "./lib/core/summarizer"
+import { SessionStore, getSessionStoreDirectory } from "./lib/session-store"
+import { createContextPruneTool } from "./lib/tools/context-prune"
+import { createContextRetrieveTool } from "./lib/tools/context-retrieve"
+import { createContextPinTool } from "./lib/tools/context-pin"
+import { CONTEXT_COMMAND_NAME, createContextCommandHandler, registerContextCommand } from "./lib/commands/context"
+import {
+    createEventHandler,
+    createChatParamsHandler,
+    createCommandExecuteBeforeHandler,
+    createToolExecuteBeforeHandler,
+    createToolExecuteAfterHandler,
+    type CommandHandler
+} from "./lib/hooks"
+import { loadConfig, PLUGIN_NAME } from "./lib/config"
 
 // Re-export types for consumers
-export type { PluginConfig } from "./lib/config"
-export type { PluginState, ModelInfo } from "./lib/state"
+export type { PluginConfig, ConfigLoadResult } from "./lib/config"
+export type { PluginState, ModelInfo, ModelLimit, ToolMetadata, ToolStatus } from "./lib/state"
+export type { SessionStats, GCStats, PruningResult } from "./lib/core/janitor"
 export type { 
     RequestInterceptor, 
     FormatDescriptor, 
     ToolOutput, 
     FetchHandlerContext,
-    FetchHandlerResult 
+    FetchHandlerResult,
+    InterceptorResult,
+    RegisteredInterceptor,
+    ResponseInterceptor,
+    ResponseSummary,
+    ResponseUsage,
+    ResponseToolCall,
+    Recording
 } from "./lib/fetch-wrapper"
-export { replaceToolOutput, injectIntoLastUserMessage, appendUserMessage } from "./lib/fetch-wrapper"
-
-/**
- * Example request interceptor - customize this for your use case!
- * 
- * This function is called for every API request to a model provider.
- * You can inspect, modify, or log the request contents.
- */
-const myRequestInterceptor: RequestInterceptor = async (
-    body: any,
-    format: FormatDescriptor,
-    dataArray: any[],
-    toolOutputs: ToolOutput[],
-    url: string,
-    ctx: FetchHandlerContext
-) => {
-    // Example: Log request information
-    ctx.logger.info("interceptor", `Request to ${format.name}`, {
-        url: url,
-        messageCount: dataArray.length,
-        toolOutputCount: toolOutputs.length
-    })
-
-    // Example: Log tool outputs
-    if (toolOutputs.length > 0) {
-        ctx.logger.debug("interceptor", "Tool outputs in request", {
-            tools: toolOutputs.map(t => ({ id: t.id.substring(0, 8), name: t.toolName }))
-        })
-    }
-
-    // ============================================
-    // ADD YOUR CUSTOM LOGIC HERE
-    // ============================================
-    // 
-    // Available utilities:
-    // - replaceToolOutput(body, format, toolId, newContent, ctx.state) - Replace a tool's output
-    // - injectIntoLastUserMessage(body, format, content) - Add content to last user message
-    // - appendUserMessage(body, format, content) - Add a new user message
-    //
-    // Example: Replace a specific tool output
-    // if (toolOutputs.some(t => t.toolName === 'read')) {
-    //     replaceToolOutput(body, format, toolOutputs[0].id, '[Content summarized]', ctx.state)
-    //     return { body, modified: true }
-    // }
-    //
-    // Example: Inject instructions
-    // injectIntoLastUserMessage(body, format, 'Please be concise in your response.')
-    // return { body, modified: true }
-    //
-    // ============================================
-
-    // Default: pass through unchanged
-    return { body, modified: false }
-}
+export type { ReplayOptions, ReplayResult } from "./lib/fetch-wrapper/replay"
+export { replaceToolOutput, injectIntoLastUserMessage, appendUserMessage, InterceptorChain } from "./lib/fetch-wrapper"
 
 const plugin: Plugin = (async (ctx: any) => {
-    const config: PluginConfig = {
-        ...defaultConfig,
-        // Override with your configuration
-        enabled: true,
-        debug: true, // Set to false in production
-    }
+    const { config, sources, errors } = await loadConfig(ctx.directory)
 
     if (!config.enabled) {
         return {}
     }
 
     // Initialize components
-    const logger = new Logger(config.debug, "myplugin")
+    const logger = new Logger(config.debug, PLUGIN_NAME, {
+        level: config.logging.level,
+        maxFileBytes: config.logging.maxFileSizeMB * 1024 * 1024,
+        maxAgeDays: config.logging.maxAgeDays,
+        payloads: config.logging.payloads,
+        redactPayload: createJsonRedactor(config.redaction)
+    })
     const state = createPluginState()
+    const sessionStore = new SessionStore(
+        getSessionStoreDirectory(config.persistence, PLUGIN_NAME),
+        config.persistence,
+        logger
+    )
+    const summarizer = new Summarizer({
+        state,
+        logger,
+        config: config.summarization,
+        model: createClientSummaryModel(ctx.client, state, logger)
+    })
+    const janitor = new Janitor({
+        client: ctx.client,
+        state,
+        logger,
+        config,
+        workingDirectory: ctx.directory,
+        summarizer
+    })
 
-    // Install the fetch wrapper with your interceptor
-    const cleanup = installFetchWrapper(state, logger, ctx.client, config, myRequestInterceptor)
+    const store = new OutputStore(
+        getOutputStoreDirectory(config.truncation, PLUGIN_NAME),
+        config.truncation.storeMaxAgeDays,
+        logger
+    )
+    const budget = new BudgetManager({ state, logger, config, janitor, store })
+    const commands: Record<string, CommandHandler> = {
+        [CONTEXT_COMMAND_NAME]: createContextCommandHandler(janitor, state, config, ctx.directory)
+    }
+
+    // Build the interceptor chain and install the fetch wrapper.
+    // Redaction runs first so no later interceptor ever sees a secret (and the
+    // output store never keeps one), and the budget runs last so it only has to
+    // deal with what truncation and pruning left over.
+    const interceptors = new InterceptorChain()
+        .register("redactor", createRedactionInterceptor(config.redaction, logger), 50)
+        .register("truncation", createTruncationInterceptor(config.truncation, store), 75)
+        .register("janitor", createJanitorInterceptor(janitor))
+        .register("budget", createBudgetInterceptor(budget, config.budget), 150)
+    // Save each session after its responses, so a restart picks up where it left off
+    const cleanup = installFetchWrapper(state, logger, ctx.client, config, interceptors.toInterceptor(), (_summary, requestCtx) => {
+        if (requestCtx.sessionId) {
+            sessionStore.scheduleSave(state, requestCtx.sessionId)
+        }
+    })
 
     logger.info("plugin", "Plugin initialized", {
-        debug: config.debug
+        debug: config.debug,
+        configSources: sources
     })
 
+    if (errors.length > 0) {
+        for (const error of errors) {
+            logger.warn("config", error)
+        }
+        await showConfigErrors(ctx.client, errors)
+    }
+
     return {
-        // Handle session events (e.g., when session goes idle)
+        // Handle session events (e.g., when session goes idle or is deleted)
         event: createEventHandler(ctx.client, state, logger, async (sessionId) => {
-            // Called when the session goes idle
-            logger.info("plugin", "Session went idle", { sessionId: sessionId.substring(0, 8) })
-            
-            // Add your idle handling logic here
+            await janitor.runOnIdle(sessionId)
+            await sessionStore.scheduleSave(state, sessionId)
+        }, async (name, sessionId, args) => {
+            // Only reached on OpenCode versions without command.execute.before
+            await commands[name]?.(sessionId, args)
+        }, async (sessionId) => {
+            await sessionStore.delete(state, sessionId)
         }),
 
-        // Handle chat parameters (called before each request)
-        "chat.params": createChatParamsHandler(ctx.client, state, logger),
-
-        // Optional: Add custom tools
-        // tool: {
-        //     myTool: {
-        //         description: "My custom tool",
-        //         parameters: z.object({ ... }),
-        //         execute: async (args) => { ... }
-        //     }
-        // }
+        // Register the /context command
+        config: async (opencodeConfig) => {
+            registerContextCommand(opencodeConfig)
+        },
+
+        // Run the plugin's commands without prompting the model
+        "command.execute.before": createCommandExecuteBeforeHandler(state, logger, commands),
+
+        // Handle chat parameters (called before each request); restores saved sessions
+        "chat.params": createChatParamsHandler(ctx.client, state, logger, sessionStore),
+
+        // Index tool calls (name, parameters, status) as they start
+        "tool.execute.before": createToolExecuteBeforeHandler(state, logger),
+
+        // Mark tool calls completed and compress subagent results before they return to the parent session
+        "tool.execute.after": createToolExecuteAfterHandler(state, config, logger),
+
+        // Tools the model can call to manage its own context
+        tool: {
+            context_prune: createContextPruneTool(janitor, ctx.directory),
+            context_retrieve: createContextRetrieveTool(store, config.truncation),
+            context_pin: createContextPinTool(janitor, state, config, ctx.directory),
+        },
     }
 }) satisfies Plugin
 
+/**
+ * Shows config problems in the TUI so a typo doesn't go unnoticed.
+ */
+async function showConfigErrors(client: any, errors: string[]): Promise<void> {
+    const shown = errors.slice(0, 3)
+    const more = errors.length > shown.length ? `\n...and ${errors.length - shown.length} more (see log)` : ''
+    try {
+        await client.tui.showToast({
+            body: {
+                title: `${PLUGIN_NAME}: invalid configuration`,
+                message: shown.join('\n') + more,
+                variant: "warning"
+            }
+        })
+    } catch {
+        // The TUI may not be attached (e.g. headless runs); errors are in the log
+    }
+}
+
 export default plugin
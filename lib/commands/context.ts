@@ -0,0 +1,58 @@
+/**
+ * /context command - reports what currently takes up the session's context.
+ *
+ * The command is registered in OpenCode's config by the plugin's config hook. When
+ * it runs, the command.execute.before hook sends the report as an ignored message,
+ * so it is shown to the user but never sent to the model, and aborts the command
+ * before its template reaches the model (see createCommandExecuteBeforeHandler).
+ * OpenCode versions without that hook prompt the model with the template and emit
+ * a command.executed event, on which the report is sent instead.
+ */
+
+import type { Janitor } from "../core/janitor"
+import type { PluginConfig } from "../config"
+import type { PluginState } from "../state"
+import { buildContextReport, formatContextReport } from "../ui/context-report"
+import { sendIgnoredMessage } from "../ui/notification"
+
+export const CONTEXT_COMMAND_NAME = "context"
+
+/** Only sent to the model by OpenCode versions without command.execute.before */
+const CONTEXT_COMMAND_TEMPLATE = `The user asked for a report of the context window, which is shown to them separately.
+Reply with only "Context report shown above." and do not call any tools.`
+
+/**
+ * Adds the /context command to OpenCode's config, unless one is already defined.
+ */
+export function registerContextCommand(opencodeConfig: any): void {
+    opencodeConfig.command ??= {}
+    if (opencodeConfig.command[CONTEXT_COMMAND_NAME]) return
+
+    opencodeConfig.command[CONTEXT_COMMAND_NAME] = {
+        template: CONTEXT_COMMAND_TEMPLATE,
+        description: "Show what takes up this session's context window"
+    }
+}
+
+/**
+ * Creates the handler that builds the context report of a session and sends it.
+ */
+export function createContextCommandHandler(
+    janitor: Janitor,
+    state: PluginState,
+    config: PluginConfig,
+    workingDirectory?: string
+) {
+    return async (sessionId: string): Promise<void> => {
+        const messages = await janitor.refreshToolMetadata(sessionId)
+        const report = buildContextReport(state, config, sessionId, messages)
+        const notificationCtx = janitor.getNotificationContext()
+
+        notificationCtx.logger.info("commands", "Sending context report", {
+            sessionId: sessionId.substring(0, 8),
+            totalTokens: report.totalTokens,
+            contextLimit: report.contextLimit
+        })
+        await sendIgnoredMessage(notificationCtx, sessionId, formatContextReport(report, workingDirectory))
+    }
+}
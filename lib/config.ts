@@ -1,15 +1,517 @@
 /**
- * Plugin configuration types and defaults.
+ * Plugin configuration types, defaults and loading.
+ *
+ * Configuration is layered: built-in defaults, then the global file
+ * ~/.config/opencode/dcp.jsonc, then the project file .opencode/dcp.jsonc in the
+ * working directory. Each layer is validated on its own; invalid keys or values
+ * are reported and skipped, so one typo never discards the rest of the file.
  */
 
+import { readFile } from "fs/promises"
+import { existsSync } from "fs"
+import { join } from "path"
+import { homedir } from "os"
+import type { PruningSummaryLevel } from "./ui/notification"
+import type { CacheConfig } from "./core/cache"
+import type { SubagentConfig } from "./core/subagents"
+import type { InterceptorOverride } from "./fetch-wrapper/interceptor-chain"
+import type { RedactionConfig } from "./core/redaction"
+import type { RecorderConfig } from "./fetch-wrapper/recorder"
+import type { LogLevel } from "./logger"
+import type { BudgetConfig } from "./core/budget"
+import type { TruncationConfig } from "./core/truncation"
+import type { SummarizationConfig } from "./core/summarizer"
+import type { PersistenceConfig } from "./session-store"
+
+export const PLUGIN_NAME = "dcp"
+
 export interface PluginConfig {
     /** Enable or disable the plugin */
     enabled: boolean
-    /** Enable debug logging */
+    /** Enable logging to ~/.config/opencode/logs/dcp */
     debug: boolean
+    /** Log level, rotation and payload dumps */
+    logging: LoggingConfig
+    /** How much detail to show in the pruning notification */
+    pruningSummary: PruningSummaryLevel
+    /** Tool names whose outputs are never modified (see ./core/protection) */
+    protectedTools: string[]
+    /** Globs of file and directory paths whose tool outputs are never modified */
+    protectedPaths: string[]
+    /** Number of most recent tool outputs that are never considered stale */
+    keepRecentToolOutputs: number
+    /** Outputs smaller than this (in estimated tokens) are not worth pruning */
+    minPruneTokens: number
+    /** Prompt-cache awareness: when to apply rewrites that invalidate the cached prefix */
+    cache: CacheConfig
+    /** How subagent (Task tool) sessions are handled */
+    subagents: SubagentConfig
+    /** Per-interceptor overrides by name, e.g. { "janitor": { "enabled": false } } */
+    interceptors: Record<string, InterceptorOverride>
+    /** Secret and PII redaction of tool outputs before they are sent */
+    redaction: RedactionConfig
+    /** Recording of intercepted requests to a local corpus, for offline replay */
+    recorder: RecorderConfig
+    /** Per-model context limits and the strategies applied as a request approaches them */
+    budget: BudgetConfig
+    /** Head/tail truncation of oversized tool outputs, with the full content kept for retrieval */
+    truncation: TruncationConfig
+    /** Summaries of stale tool outputs written by a cheaper model, used instead of the placeholder */
+    summarization: SummarizationConfig
+    /** Saving of session state (pruned outputs, savings, rewrites) across restarts */
+    persistence: PersistenceConfig
+}
+
+export interface LoggingConfig {
+    level: LogLevel
+    maxFileSizeMB: number
+    maxAgeDays: number
+    /** Write full request bodies (before and after the interceptors) and response summaries */
+    payloads: boolean
 }
 
 export const defaultConfig: PluginConfig = {
     enabled: true,
     debug: false,
+    logging: {
+        level: "info",
+        maxFileSizeMB: 10,
+        maxAgeDays: 7,
+        payloads: false,
+    },
+    pruningSummary: "detailed",
+    protectedTools: ["task", "todowrite", "todoread"],
+    protectedPaths: [],
+    keepRecentToolOutputs: 10,
+    minPruneTokens: 50,
+    cache: {
+        enabled: true,
+        ttlSeconds: 300,
+        horizonRequests: 20,
+    },
+    subagents: {
+        default: "skip",
+        agents: {},
+        compressResult: false,
+        maxResultTokens: 4000,
+    },
+    interceptors: {},
+    redaction: {
+        enabled: true,
+        tools: [],
+        entropy: true,
+        minEntropy: 4.5,
+        disabledRules: [],
+        enabledRules: [],
+        rules: {},
+    },
+    recorder: {
+        enabled: false,
+        directory: "",
+    },
+    budget: {
+        enabled: true,
+        limits: {},
+        reserveOutputTokens: 16000,
+        thresholds: {
+            prune: 0.6,
+            truncate: 0.75,
+            summarize: 0.85,
+            drop: 0.95,
+        },
+        truncateAboveTokens: 2000,
+        truncateToTokens: 500,
+    },
+    truncation: {
+        enabled: true,
+        defaultMaxTokens: 8000,
+        maxTokens: {},
+        keepTokens: 2000,
+        storeDirectory: "",
+        storeMaxAgeDays: 7,
+    },
+    summarization: {
+        enabled: false,
+        model: "",
+        minTokens: 1000,
+        maxSummaryTokens: 300,
+        maxOutputsPerRun: 5,
+        timeoutSeconds: 60,
+    },
+    persistence: {
+        enabled: true,
+        directory: "",
+        maxAgeDays: 30,
+        maxSessions: 200,
+    },
+}
+
+export interface ConfigLoadResult {
+    config: PluginConfig
+    /** Config files that were found and applied, lowest priority first */
+    sources: string[]
+    /** Problems found while loading, prefixed with the file they came from */
+    errors: string[]
+}
+
+/**
+ * Validates a value and returns it, or returns undefined and records an error.
+ */
+type Validator = (value: unknown, path: string, errors: string[]) => unknown
+
+const CONFIG_SCHEMA: Record<keyof PluginConfig, Validator> = {
+    enabled: boolean(),
+    debug: boolean(),
+    logging: object({
+        level: oneOf(["debug", "info", "warn", "error"]),
+        maxFileSizeMB: integer(1),
+        maxAgeDays: integer(1),
+        payloads: boolean(),
+    }),
+    pruningSummary: oneOf(["off", "minimal", "detailed"]),
+    protectedTools: stringArray(),
+    protectedPaths: stringArray(),
+    keepRecentToolOutputs: integer(0),
+    minPruneTokens: integer(0),
+    cache: object({
+        enabled: boolean(),
+        ttlSeconds: integer(1),
+        horizonRequests: integer(1),
+    }),
+    subagents: object({
+        default: oneOf(["skip", "light", "full"]),
+        agents: record(oneOf(["skip", "light", "full"])),
+        compressResult: boolean(),
+        maxResultTokens: integer(1),
+    }),
+    interceptors: record(object({
+        enabled: boolean(),
+        priority: integer(Number.MIN_SAFE_INTEGER),
+    })),
+    redaction: object({
+        enabled: boolean(),
+        tools: stringArray(),
+        entropy: boolean(),
+        minEntropy: number(0, 8),
+        disabledRules: stringArray(),
+        enabledRules: stringArray(),
+        rules: record(regex()),
+    }),
+    recorder: object({
+        enabled: boolean(),
+        directory: string(),
+    }),
+    budget: object({
+        enabled: boolean(),
+        limits: record(integer(1)),
+        reserveOutputTokens: integer(0),
+        thresholds: object({
+            prune: number(0, 1),
+            truncate: number(0, 1),
+            summarize: number(0, 1),
+            drop: number(0, 1),
+        }),
+        truncateAboveTokens: integer(1),
+        truncateToTokens: integer(1),
+    }),
+    truncation: object({
+        enabled: boolean(),
+        defaultMaxTokens: integer(1),
+        maxTokens: record(integer(0)),
+        keepTokens: integer(1),
+        storeDirectory: string(),
+        storeMaxAgeDays: integer(1),
+    }),
+    summarization: object({
+        enabled: boolean(),
+        model: string(),
+        minTokens: integer(0),
+        maxSummaryTokens: integer(1),
+        maxOutputsPerRun: integer(0),
+        timeoutSeconds: integer(1),
+    }),
+    persistence: object({
+        enabled: boolean(),
+        directory: string(),
+        maxAgeDays: integer(1),
+        maxSessions: integer(1),
+    }),
+}
+
+export function getGlobalConfigPath(): string {
+    return join(homedir(), ".config", "opencode", `${PLUGIN_NAME}.jsonc`)
+}
+
+export function getProjectConfigPath(workingDirectory: string): string {
+    return join(workingDirectory, ".opencode", `${PLUGIN_NAME}.jsonc`)
+}
+
+/**
+ * Loads the layered configuration for a working directory.
+ */
+export async function loadConfig(workingDirectory?: string): Promise<ConfigLoadResult> {
+    const paths = [getGlobalConfigPath()]
+    if (workingDirectory) {
+        paths.push(getProjectConfigPath(workingDirectory))
+    }
+
+    let config: any = structuredClone(defaultConfig)
+    const sources: string[] = []
+    const errors: string[] = []
+
+    for (const path of paths) {
+        if (!existsSync(path)) continue
+
+        let raw: unknown
+        try {
+            raw = parseJsonc(await readFile(path, "utf-8"))
+        } catch (error: any) {
+            errors.push(`${path}: ${error.message}`)
+            continue
+        }
+
+        const layerErrors: string[] = []
+        const layer = object(CONFIG_SCHEMA)(raw, "", layerErrors)
+        errors.push(...layerErrors.map(e => `${path}: ${e}`))
+        if (layer) {
+            config = mergeConfig(config, layer)
+        }
+        sources.push(path)
+    }
+
+    // Thresholds can come from different layers, so their order is checked once merged
+    const thresholds: Record<string, number> = config.budget.thresholds
+    const order = Object.keys(defaultConfig.budget.thresholds)
+    if (order.some((key, i) => i > 0 && thresholds[key] < thresholds[order[i - 1]])) {
+        const got = order.map(key => `${key} ${thresholds[key]}`).join(", ")
+        errors.push(`"budget.thresholds" must not decrease in the order ${order.join(", ")}, got ${got}; using the defaults`)
+        config.budget.thresholds = { ...defaultConfig.budget.thresholds }
+    }
+
+    return { config, sources, errors }
+}
+
+/**
+ * Deep-merges a validated config layer. Arrays and primitives replace, objects merge.
+ */
+function mergeConfig(base: any, layer: any): any {
+    const result: any = { ...base }
+    for (const [key, value] of Object.entries(layer)) {
+        if (isPlainObject(value) && isPlainObject(base[key])) {
+            result[key] = mergeConfig(base[key], value)
+        } else {
+            result[key] = value
+        }
+    }
+    return result
+}
+
+/**
+ * Parses JSON with comments and trailing commas.
+ */
+export function parseJsonc(text: string): unknown {
+    let output = ""
+    let inString = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        const next = text[i + 1]
+
+        if (inString) {
+            output += char
+            if (char === "\\") {
+                output += next ?? ""
+                i++
+            } else if (char === '"') {
+                inString = false
+            }
+            continue
+        }
+
+        if (char === '"') {
+            inString = true
+            output += char
+        } else if (char === "/" && next === "/") {
+            while (i < text.length && text[i] !== "\n") i++
+            output += "\n"
+        } else if (char === "/" && next === "*") {
+            const end = text.indexOf("*/", i + 2)
+            if (end === -1) throw new Error("Unterminated block comment")
+            i = end + 1
+        } else if (char === "]" || char === "}") {
+            // Drop a trailing comma before the closing bracket or brace
+            output = output.replace(/,\s*$/, "") + char
+        } else {
+            output += char
+        }
+    }
+
+    try {
+        return JSON.parse(output)
+    } catch (error: any) {
+        throw new Error(`Invalid JSONC: ${error.message}`)
+    }
+}
+
+// ============================================
+// Schema validators
+// ============================================
+
+function boolean(): Validator {
+    return (value, path, errors) => {
+        if (typeof value === "boolean") return value
+        errors.push(`"${path}" must be true or false, got ${describe(value)}`)
+        return undefined
+    }
+}
+
+function integer(min: number, max: number = Number.MAX_SAFE_INTEGER): Validator {
+    return (value, path, errors) => {
+        if (typeof value === "number" && Number.isInteger(value) && value >= min && value <= max) return value
+        const range = min === Number.MIN_SAFE_INTEGER ? ""
+            : max === Number.MAX_SAFE_INTEGER ? ` >= ${min}`
+            : ` between ${min} and ${max}`
+        errors.push(`"${path}" must be an integer${range}, got ${describe(value)}`)
+        return undefined
+    }
+}
+
+function number(min: number, max: number): Validator {
+    return (value, path, errors) => {
+        if (typeof value === "number" && Number.isFinite(value) && value >= min && value <= max) return value
+        errors.push(`"${path}" must be a number between ${min} and ${max}, got ${describe(value)}`)
+        return undefined
+    }
+}
+
+function oneOf(options: string[]): Validator {
+    return (value, path, errors) => {
+        if (typeof value === "string" && options.includes(value)) return value
+        errors.push(`"${path}" must be one of ${options.map(o => `"${o}"`).join(", ")}, got ${describe(value)}`)
+        return undefined
+    }
+}
+
+function string(): Validator {
+    return (value, path, errors) => {
+        if (typeof value === "string") return value
+        errors.push(`"${path}" must be a string, got ${describe(value)}`)
+        return undefined
+    }
+}
+
+function stringArray(): Validator {
+    return (value, path, errors) => {
+        if (Array.isArray(value) && value.every(v => typeof v === "string")) return value
+        errors.push(`"${path}" must be an array of strings, got ${describe(value)}`)
+        return undefined
+    }
+}
+
+function regex(): Validator {
+    return (value, path, errors) => {
+        if (typeof value !== "string") {
+            errors.push(`"${path}" must be a regular expression string, got ${describe(value)}`)
+            return undefined
+        }
+        try {
+            new RegExp(value)
+            return value
+        } catch (error: any) {
+            errors.push(`"${path}" is not a valid regular expression: ${error.message}`)
+            return undefined
+        }
+    }
+}
+
+function record(valueValidator: Validator): Validator {
+    return (value, path, errors) => {
+        if (!isPlainObject(value)) {
+            errors.push(`"${path}" must be an object, got ${describe(value)}`)
+            return undefined
+        }
+
+        const result: Record<string, unknown> = {}
+        for (const [key, entry] of Object.entries(value)) {
+            const validated = valueValidator(entry, `${path}.${key}`, errors)
+            if (validated !== undefined) {
+                result[key] = validated
+            }
+        }
+        return result
+    }
+}
+
+function object(schema: Record<string, Validator>): Validator {
+    return (value, path, errors) => {
+        if (!isPlainObject(value)) {
+            errors.push(`"${path || "(root)"}" must be an object, got ${describe(value)}`)
+            return undefined
+        }
+
+        const result: Record<string, unknown> = {}
+        for (const [key, entry] of Object.entries(value)) {
+            const keyPath = path ? `${path}.${key}` : key
+            if (key === "$schema") continue
+
+            const validator = schema[key]
+            if (!validator) {
+                const suggestion = suggestKey(key, Object.keys(schema))
+                errors.push(`unknown key "${keyPath}"${suggestion ? ` (did you mean "${suggestion}"?)` : ""}`)
+                continue
+            }
+
+            const validated = validator(entry, keyPath, errors)
+            if (validated !== undefined) {
+                result[key] = validated
+            }
+        }
+        return result
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return "null"
+    if (Array.isArray(value)) return "an array"
+    if (typeof value === "string") return `"${value}"`
+    if (typeof value === "object") return "an object"
+    return String(value)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Suggests the closest known key for a misspelled one.
+ */
+function suggestKey(key: string, known: string[]): string | null {
+    let best: string | null = null
+    let bestDistance = 3
+    for (const candidate of known) {
+        const distance = editDistance(key.toLowerCase(), candidate.toLowerCase())
+        if (distance < bestDistance) {
+            best = candidate
+            bestDistance = distance
+        }
+    }
+    return best
+}
+
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0]
+        previous[0] = i
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j]
+            previous[j] = Math.min(
+                previous[j] + 1,
+                previous[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            )
+            diagonal = above
+        }
+    }
+    return previous[b.length]
 }
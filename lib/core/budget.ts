@@ -0,0 +1,396 @@
+/**
+ * Context budget enforcement.
+ *
+ * Every outgoing request is measured against the context limit of its model
+ * (minus the tokens reserved for the response). As the request grows past each
+ * threshold, increasingly aggressive strategies are applied to older tool outputs
+ * until it is back under that threshold:
+ * 1. prune: pruning decisions held back for the prompt cache are applied anyway
+ * 2. truncate: large outputs are cut down to their head and tail, with the full
+ *    content kept in the output store (see ./truncation)
+ * 3. summarize: outputs are replaced with their LLM summary if one was made
+ *    before (see ./summarizer), or a short digest
+ * 4. drop: outputs are replaced with a placeholder
+ *
+ * Only tool outputs are reduced: messages, reasoning and the system prompt are
+ * left as they are, so a session whose chat text alone exceeds the budget stays
+ * over it (a warning is logged). Protected outputs and the most recent outputs are
+ * never touched. Rewrites are
+ * sticky: once sent, they are re-applied to every later request of the session so
+ * the cached prompt prefix stays stable.
+ *
+ * Measurements use the token estimate of the request, calibrated with the input
+ * tokens the provider reported for the session's previous response.
+ */
+
+import type { PluginState, ModelInfo } from "../state"
+import type { Logger } from "../logger"
+import type { PluginConfig } from "../config"
+import type { FormatDescriptor, ToolOutput, RequestInterceptor } from "../fetch-wrapper"
+import { replaceToolOutput } from "../fetch-wrapper"
+import { estimateDataArrayTokens, estimateTokens, getSessionTokenizer, type TokenizerStrategy } from "../tokenizer"
+import { extractParameterKey } from "../ui/display-utils"
+import { getPrunedReplacement, type Janitor } from "./janitor"
+import { truncateOutput } from "./truncation"
+import type { OutputStore } from "./output-store"
+import { formatSummary, getCachedSummary } from "./summarizer"
+import { hashContent } from "../fetch-wrapper/gemini-correlation"
+import { enrichToolOutputs } from "../tool-index"
+import { isProtected } from "./protection"
+
+export type BudgetStrategy = "prune" | "truncate" | "summarize" | "drop"
+
+/** Strategies in escalation order */
+export const BUDGET_STRATEGIES: BudgetStrategy[] = ["prune", "truncate", "summarize", "drop"]
+
+export interface BudgetConfig {
+    enabled: boolean
+    /** Context limits by model, overriding OpenCode's; keys match "provider/model" substrings */
+    limits: Record<string, number>
+    /** Tokens kept free for the response when the request doesn't set a maximum */
+    reserveOutputTokens: number
+    /** Fraction of the input budget above which each strategy is applied */
+    thresholds: Record<BudgetStrategy, number>
+    /** Outputs larger than this (in estimated tokens) are truncated */
+    truncateAboveTokens: number
+    /** Tokens kept of a truncated output */
+    truncateToTokens: number
+}
+
+/**
+ * A tool output rewritten to stay within budget, re-applied on every later request.
+ */
+export interface BudgetRewrite {
+    strategy: BudgetStrategy
+    content: string
+}
+
+export interface BudgetMeasurement {
+    /** Context limit of the model */
+    contextLimit: number
+    /** Input tokens available: the context limit minus the reserved output */
+    budget: number
+    /** Measured input tokens before and after enforcement */
+    before: number
+    after: number
+}
+
+/**
+ * Per-session budget tracking.
+ */
+export interface BudgetState {
+    /** Rewritten tool outputs by call ID */
+    rewrites: Map<string, BudgetRewrite>
+    /** Measurement of the session's latest request */
+    lastMeasurement: BudgetMeasurement | null
+}
+
+export interface BudgetContext {
+    state: PluginState
+    logger: Logger
+    config: PluginConfig
+    janitor: Janitor
+    /** Keeps the full content of truncated outputs for retrieval */
+    store?: OutputStore
+}
+
+export const DROPPED_OUTPUT_PLACEHOLDER = '[Output dropped to stay within the context limit]'
+
+export const DEFAULT_CONTEXT_LIMIT = 128000
+
+/**
+ * Context limits of known model families, matched against the model ID in order.
+ * Only used when OpenCode reports no limit for the model.
+ */
+const MODEL_CONTEXT_LIMITS: [RegExp, number][] = [
+    [/claude/, 200000],
+    [/gpt-4\.1/, 1047576],
+    [/gpt-5/, 400000],
+    [/gpt-4o|gpt-4-turbo|gpt-4\.5/, 128000],
+    [/gpt-4-32k/, 32768],
+    [/gpt-4(?:-0314|-0613)?$/, 8192],
+    [/(^|\/)o[134]\b/, 200000],
+    [/gemini-1\.5-pro/, 2097152],
+    [/gemini/, 1048576],
+    [/qwen3-coder/, 262144],
+    [/kimi-k2/, 131072],
+    [/deepseek/, 128000],
+    [/glm-4\.[56]/, 131072],
+    [/grok-4/, 256000],
+]
+
+/**
+ * A request being brought within budget.
+ */
+interface BudgetRun {
+    sessionId: string
+    body: any
+    format: FormatDescriptor
+    outputs: ToolOutput[]
+    tokenizer: TokenizerStrategy
+    /** Current measurement, kept up to date as outputs are rewritten */
+    tokens: number
+}
+
+export function createBudgetState(): BudgetState {
+    return {
+        rewrites: new Map(),
+        lastMeasurement: null,
+    }
+}
+
+/**
+ * Looks up the context limit of a model. Config overrides win, the longest
+ * matching key first; then the limit OpenCode reports for the model; then the
+ * built-in table.
+ */
+export function getContextLimit(model: ModelInfo | undefined, overrides: Record<string, number> = {}): number {
+    if (!model) return DEFAULT_CONTEXT_LIMIT
+
+    const fullId = `${model.providerID}/${model.modelID}`.toLowerCase()
+    const override = Object.keys(overrides)
+        .filter(key => fullId.includes(key.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0]
+    if (override) return overrides[override]
+    if (model.limit && model.limit.context > 0) return model.limit.context
+
+    const modelID = model.modelID.toLowerCase()
+    for (const [pattern, limit] of MODEL_CONTEXT_LIMITS) {
+        if (pattern.test(modelID)) return limit
+    }
+    return DEFAULT_CONTEXT_LIMIT
+}
+
+/**
+ * Returns the output tokens a request reserves, from its own maximum if it sets one.
+ * Otherwise the fallback is capped at the model's output limit, when known.
+ */
+export function getReservedOutputTokens(body: any, fallback: number, model?: ModelInfo): number {
+    const requested = body.max_tokens
+        ?? body.max_completion_tokens
+        ?? body.max_output_tokens
+        ?? body.generationConfig?.maxOutputTokens
+        ?? body.inferenceConfig?.maxTokens
+    if (typeof requested === 'number' && requested > 0) return requested
+    const outputLimit = model?.limit?.output
+    return outputLimit && outputLimit > 0 ? Math.min(fallback, outputLimit) : fallback
+}
+
+/**
+ * Builds a short digest of a tool output: what produced it, its size and its first lines.
+ */
+export function summarizeToolOutput(
+    text: string,
+    tokenizer: TokenizerStrategy,
+    metadata?: { tool: string, parameters?: any }
+): string {
+    const lines = text.split('\n')
+    const firstLines = lines.filter(line => line.trim()).slice(0, 3).map(line => line.slice(0, 160))
+    const source = metadata
+        ? [metadata.tool, extractParameterKey(metadata)].filter(Boolean).join(' ')
+        : 'tool'
+
+    return [
+        `[Summarized to save context: ${source} output of ${lines.length} lines, ~${estimateTokens(text, tokenizer)} tokens. First lines:]`,
+        ...firstLines
+    ].join('\n')
+}
+
+export class BudgetManager {
+    constructor(private ctx: BudgetContext) {}
+
+    /**
+     * Brings a request within its model's context budget.
+     * @returns Number of tool outputs rewritten
+     */
+    enforce(sessionId: string, body: any, format: FormatDescriptor, toolOutputs: ToolOutput[]): number {
+        const budgetState = this.getBudgetState(sessionId)
+        const run: BudgetRun = {
+            sessionId,
+            body,
+            format,
+            outputs: toolOutputs.map(o => ({ ...o })),
+            tokenizer: getSessionTokenizer(this.ctx.state, sessionId),
+            tokens: 0
+        }
+
+        let rewritten = this.reapplyRewrites(run, budgetState)
+
+        const model = this.ctx.state.model.get(sessionId)
+        const contextLimit = getContextLimit(model, this.ctx.config.budget.limits)
+        const reserved = getReservedOutputTokens(body, this.ctx.config.budget.reserveOutputTokens, model)
+        const budget = Math.max(contextLimit - reserved, Math.floor(contextLimit / 2))
+        run.tokens = this.measure(run)
+        const before = run.tokens
+
+        const applied: BudgetStrategy[] = []
+        for (const strategy of BUDGET_STRATEGIES) {
+            const target = this.ctx.config.budget.thresholds[strategy] * budget
+            if (run.tokens <= target) continue
+
+            const count = this.applyStrategy(strategy, run, budgetState, target)
+            if (count > 0) {
+                applied.push(strategy)
+                rewritten += count
+            }
+        }
+
+        budgetState.lastMeasurement = { contextLimit, budget, before, after: run.tokens }
+
+        if (applied.length > 0) {
+            this.ctx.logger.info("budget", "Brought request within context budget", {
+                sessionId: sessionId.substring(0, 8),
+                contextLimit,
+                budget,
+                before,
+                after: run.tokens,
+                strategies: applied
+            })
+        }
+        if (run.tokens > budget) {
+            // What is left is messages and protected or recent outputs, which are never reduced
+            this.ctx.logger.warn("budget", "Request still exceeds the context budget", {
+                sessionId: sessionId.substring(0, 8),
+                contextLimit,
+                budget,
+                tokens: run.tokens,
+                toolOutputTokens: run.outputs.reduce((sum, o) => sum + estimateTokens(o.content, run.tokenizer), 0)
+            })
+        }
+
+        return rewritten
+    }
+
+    getBudgetState(sessionId: string): BudgetState {
+        let budgetState = this.ctx.state.budget.get(sessionId)
+        if (!budgetState) {
+            budgetState = createBudgetState()
+            this.ctx.state.budget.set(sessionId, budgetState)
+        }
+        return budgetState
+    }
+
+    /**
+     * Estimates the request's input tokens. The data array is estimated directly; the
+     * rest (system prompt, tool definitions) comes from the difference between the
+     * reported and estimated input tokens of the previous response, or is estimated
+     * from its JSON until a response has been seen.
+     */
+    private measure(run: BudgetRun): number {
+        const data = run.format.getDataArray(run.body) ?? []
+        const estimated = estimateDataArrayTokens(data, run.format, run.tokenizer)
+
+        const offset = this.ctx.state.tokenEstimateOffsets.get(run.sessionId)
+        if (offset !== undefined) {
+            return Math.max(0, estimated + offset)
+        }
+
+        const rest = Object.fromEntries(Object.entries(run.body).filter(([, value]) => value !== data))
+        return estimated + estimateTokens(JSON.stringify(rest), run.tokenizer)
+    }
+
+    /**
+     * Re-applies the session's earlier rewrites. Outputs the janitor has since
+     * replaced with its (shorter) placeholder are left alone. Truncated outputs are
+     * stored again: a rewrite restored with its session can outlive the stored file
+     * its handle points to.
+     */
+    private reapplyRewrites(run: BudgetRun, budgetState: BudgetState): number {
+        let count = 0
+        for (const output of run.outputs) {
+            const rewrite = budgetState.rewrites.get(output.id)
+            if (!rewrite || !output.content || output.content.length <= rewrite.content.length) continue
+            if (rewrite.strategy === "truncate") this.ctx.store?.put(output.content)
+
+            if (replaceToolOutput(run.body, run.format, output.id, rewrite.content, this.ctx.state, run.sessionId)) {
+                output.content = rewrite.content
+                count++
+            }
+        }
+        return count
+    }
+
+    private applyStrategy(strategy: BudgetStrategy, run: BudgetRun, budgetState: BudgetState, target: number): number {
+        if (strategy === "prune") {
+            const count = this.ctx.janitor.applyPruning(run.sessionId, run.body, run.format, true)
+            if (count > 0) {
+                const outputs = run.format.extractToolOutputs(run.format.getDataArray(run.body) ?? [], this.ctx.state, run.sessionId)
+                run.outputs = enrichToolOutputs(this.ctx.state, outputs)
+                run.tokens = this.measure(run)
+            }
+            return count
+        }
+
+        const { truncateAboveTokens, truncateToTokens } = this.ctx.config.budget
+        let candidates = this.getCandidates(run, budgetState, strategy)
+        if (strategy === "truncate") {
+            // Largest first: the most savings for the fewest rewrites
+            candidates = candidates
+                .filter(o => estimateTokens(o.content, run.tokenizer) > truncateAboveTokens)
+                .sort((a, b) => (b.content?.length ?? 0) - (a.content?.length ?? 0))
+        }
+
+        let count = 0
+        for (const output of candidates) {
+            if (run.tokens <= target) break
+
+            const content = output.content!
+            const replacement = strategy === "truncate" ? truncateOutput(content, truncateToTokens, run.tokenizer, this.ctx.store)
+                : strategy === "summarize" ? this.summarize(output.id, content, run.tokenizer)
+                : DROPPED_OUTPUT_PLACEHOLDER
+            if (replacement === null || replacement.length >= content.length) continue
+
+            if (replaceToolOutput(run.body, run.format, output.id, replacement, this.ctx.state, run.sessionId)) {
+                run.tokens -= estimateTokens(content, run.tokenizer) - estimateTokens(replacement, run.tokenizer)
+                output.content = replacement
+                budgetState.rewrites.set(output.id, { strategy, content: replacement })
+                count++
+            }
+        }
+        return count
+    }
+
+    /**
+     * Uses a cached LLM summary of the content if there is one; the budget never
+     * waits on a model call.
+     */
+    private summarize(id: string, content: string, tokenizer: TokenizerStrategy): string {
+        const metadata = this.ctx.state.toolParameters.get(id)
+        const summary = getCachedSummary(this.ctx.state, hashContent(content))
+        return summary !== undefined
+            ? formatSummary(summary, { id, content, metadata })
+            : summarizeToolOutput(content, tokenizer, metadata)
+    }
+
+    /**
+     * Lists the outputs a strategy may rewrite, oldest first: not recent, not protected,
+     * not pruned, and not already rewritten by this or a stronger strategy.
+     */
+    private getCandidates(run: BudgetRun, budgetState: BudgetState, strategy: BudgetStrategy): ToolOutput[] {
+        const rank = BUDGET_STRATEGIES.indexOf(strategy)
+        const older = run.outputs.slice(0, Math.max(0, run.outputs.length - this.ctx.config.keepRecentToolOutputs))
+
+        return older.filter(output => {
+            if (!output.content || output.content === getPrunedReplacement(this.ctx.state, output.id)) return false
+            const rewrite = budgetState.rewrites.get(output.id)
+            if (rewrite && BUDGET_STRATEGIES.indexOf(rewrite.strategy) >= rank) return false
+            return !isProtected(this.ctx.state, this.ctx.config, output.id, output.toolName)
+        })
+    }
+}
+
+/**
+ * Creates a request interceptor that keeps every request within its model's
+ * context budget. It runs after the janitor, so it only has to deal with what
+ * pruning left over. Subagent sessions with the "light" policy are left alone.
+ */
+export function createBudgetInterceptor(manager: BudgetManager, config: BudgetConfig): RequestInterceptor {
+    return (body, format, _dataArray, toolOutputs, _url, ctx) => {
+        if (!config.enabled || !ctx.sessionId || ctx.subagentPolicy === 'light') {
+            return { body, modified: false }
+        }
+
+        const rewritten = manager.enforce(ctx.sessionId, body, format, toolOutputs)
+        return { body, modified: rewritten > 0 }
+    }
+}
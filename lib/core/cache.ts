@@ -0,0 +1,211 @@
+/**
+ * Prompt-cache awareness for request rewrites.
+ *
+ * Providers cache the prompt prefix of recent requests. Any rewrite inside that
+ * prefix invalidates the cache from the rewritten message onwards, and the
+ * provider has to process (and, for Anthropic, re-write) those tokens again. That
+ * can cost more than the pruning saves, so new pruning decisions are held back
+ * until applying them is worth it:
+ * - the rewrite only touches messages after the cached prefix, or
+ * - the cache has expired anyway, or
+ * - the projected savings over the next requests outweigh the cache-miss cost.
+ */
+
+import type { FormatDescriptor } from "../fetch-wrapper/types"
+import { estimateMessageTokens, type TokenizerStrategy } from "../tokenizer"
+
+export interface CacheConfig {
+    /** Hold back rewrites that would invalidate the prompt cache */
+    enabled: boolean
+    /** How long the provider keeps a cached prefix */
+    ttlSeconds: number
+    /** Number of future requests a pruning is expected to benefit */
+    horizonRequests: number
+}
+
+/**
+ * Per-session cache tracking.
+ */
+export interface CacheState {
+    /** Pruned tool IDs that have been sent to the provider and must stay replaced */
+    appliedIds: string[]
+    /** Time of the last request, in ms since the epoch */
+    lastRequestAt: number | null
+    /** Number of messages in the last request, used as the implicit cached prefix */
+    lastMessageCount: number
+}
+
+export interface CacheBreakpoint {
+    /** Where the breakpoint sits: the system prompt, the tool list or a message */
+    location: 'system' | 'tools' | 'messages'
+    /** Index within that location */
+    index: number
+}
+
+export interface RewritePlan {
+    /** Whether the pending rewrites should be applied to this request */
+    apply: boolean
+    reason: 'no-cache' | 'cache-cold' | 'after-prefix' | 'worth-it' | 'deferred'
+    /** Index of the first message changed by the rewrite, or -1 if none */
+    firstChangedIndex: number
+    /** Previously cached prompt tokens that would have to be processed again */
+    cacheMissTokens: number
+    /** Cache-miss cost in input-token equivalents */
+    cacheMissCost: number
+    /** Projected savings over the horizon, in input-token equivalents */
+    projectedSavings: number
+}
+
+/**
+ * Prices of cache writes and reads relative to uncached input tokens.
+ */
+interface CachePricing {
+    write: number
+    read: number
+}
+
+const CACHE_PRICING: Record<string, CachePricing> = {
+    'anthropic': { write: 1.25, read: 0.1 },
+    'bedrock': { write: 1.25, read: 0.1 },
+    'openai-chat': { write: 1.0, read: 0.5 },
+    'openai-responses': { write: 1.0, read: 0.5 },
+    'gemini': { write: 1.0, read: 0.25 },
+}
+
+const DEFAULT_CACHE_PRICING: CachePricing = { write: 1.0, read: 0.5 }
+
+/** Formats whose providers cache a prefix only at explicit breakpoints */
+const EXPLICIT_CACHE_FORMATS = new Set(['anthropic', 'bedrock'])
+
+export function createCacheState(): CacheState {
+    return {
+        appliedIds: [],
+        lastRequestAt: null,
+        lastMessageCount: 0,
+    }
+}
+
+/**
+ * Finds explicit cache breakpoints in a request body:
+ * Anthropic `cache_control` blocks and Bedrock `cachePoint` blocks.
+ */
+export function findCacheBreakpoints(body: any, format: FormatDescriptor): CacheBreakpoint[] {
+    const breakpoints: CacheBreakpoint[] = []
+    const isBreakpoint = (block: any) => format.name === 'bedrock'
+        ? block?.cachePoint !== undefined
+        : block?.cache_control !== undefined
+
+    if (Array.isArray(body.system)) {
+        body.system.forEach((block: any, index: number) => {
+            if (isBreakpoint(block)) breakpoints.push({ location: 'system', index })
+        })
+    }
+
+    const tools = format.name === 'bedrock' ? body.toolConfig?.tools : body.tools
+    if (Array.isArray(tools)) {
+        tools.forEach((tool: any, index: number) => {
+            if (isBreakpoint(tool)) breakpoints.push({ location: 'tools', index })
+        })
+    }
+
+    const dataArray = format.getDataArray(body)
+    if (dataArray) {
+        dataArray.forEach((message: any, index: number) => {
+            if (Array.isArray(message.content) && message.content.some(isBreakpoint)) {
+                breakpoints.push({ location: 'messages', index })
+            }
+        })
+    }
+
+    return breakpoints
+}
+
+/**
+ * Returns the number of leading messages that are likely served from the prompt cache.
+ */
+export function getCachedPrefixLength(
+    body: any,
+    format: FormatDescriptor,
+    cacheState: CacheState,
+    now: number,
+    config: CacheConfig
+): number {
+    if (isCacheCold(cacheState, now, config)) return 0
+
+    if (EXPLICIT_CACHE_FORMATS.has(format.name)) {
+        const messageBreakpoints = findCacheBreakpoints(body, format).filter(b => b.location === 'messages')
+        if (messageBreakpoints.length === 0) return 0
+        // The cached prefix can't extend past what the provider saw in the last request
+        const lastBreakpoint = messageBreakpoints[messageBreakpoints.length - 1].index
+        return Math.min(lastBreakpoint + 1, cacheState.lastMessageCount)
+    }
+
+    // Automatic prefix caching: the previous request's messages are cached
+    return cacheState.lastMessageCount
+}
+
+/**
+ * Decides whether pending rewrites should be applied to this request.
+ *
+ * @param body - The request body with only the already-applied rewrites
+ * @param rewritten - A copy of the body with the pending rewrites applied as well
+ * @param pendingTokens - Estimated tokens removed by the pending rewrites
+ */
+export function planRewrite(
+    body: any,
+    rewritten: any,
+    format: FormatDescriptor,
+    cacheState: CacheState,
+    pendingTokens: number,
+    tokenizer: TokenizerStrategy,
+    now: number,
+    config: CacheConfig
+): RewritePlan {
+    const original = format.getDataArray(body) ?? []
+    const modified = format.getDataArray(rewritten) ?? []
+    const firstChangedIndex = findFirstChangedIndex(original, modified)
+    const pricing = CACHE_PRICING[format.name] ?? DEFAULT_CACHE_PRICING
+    const projectedSavings = pendingTokens * pricing.read * config.horizonRequests
+
+    const plan = (apply: boolean, reason: RewritePlan['reason'], cacheMissTokens = 0): RewritePlan => ({
+        apply,
+        reason,
+        firstChangedIndex,
+        cacheMissTokens,
+        cacheMissCost: cacheMissTokens * (pricing.write - pricing.read),
+        projectedSavings
+    })
+
+    if (!config.enabled) return plan(true, 'no-cache')
+    if (isCacheCold(cacheState, now, config)) return plan(true, 'cache-cold')
+
+    const cachedPrefixLength = getCachedPrefixLength(body, format, cacheState, now, config)
+    if (firstChangedIndex === -1 || firstChangedIndex >= cachedPrefixLength) {
+        return plan(true, 'after-prefix')
+    }
+
+    let cacheMissTokens = 0
+    for (let i = firstChangedIndex; i < cachedPrefixLength && i < original.length; i++) {
+        cacheMissTokens += estimateMessageTokens(original[i], format, tokenizer)
+    }
+
+    const result = plan(false, 'deferred', cacheMissTokens)
+    if (result.projectedSavings >= result.cacheMissCost) {
+        return { ...result, apply: true, reason: 'worth-it' }
+    }
+    return result
+}
+
+function isCacheCold(cacheState: CacheState, now: number, config: CacheConfig): boolean {
+    return cacheState.lastRequestAt === null || now - cacheState.lastRequestAt > config.ttlSeconds * 1000
+}
+
+function findFirstChangedIndex(original: any[], modified: any[]): number {
+    const length = Math.max(original.length, modified.length)
+    for (let i = 0; i < length; i++) {
+        if (original[i] !== modified[i] && JSON.stringify(original[i]) !== JSON.stringify(modified[i])) {
+            return i
+        }
+    }
+    return -1
+}
@@ -0,0 +1,69 @@
+/**
+ * Deduplication of repeated tool calls.
+ *
+ * When the same tool is called with the same parameters several times in a
+ * conversation (re-reading a file, re-running a grep), only the latest output
+ * reflects the current state. Older copies are reported as duplicates so the
+ * janitor can replace them.
+ */
+
+import type { ToolMetadata } from "../state"
+import type { ToolOutput } from "../fetch-wrapper/types"
+import { extractParameterKey } from "../ui/display-utils"
+
+/**
+ * Builds the grouping key for a tool call: tool name plus the display parameter key.
+ * Returns null for calls that cannot be grouped safely.
+ */
+export function getDeduplicationKey(metadata: ToolMetadata): string | null {
+    const paramKey = extractParameterKey(metadata)
+    if (!paramKey) return null
+    return `${metadata.tool}::${paramKey}`
+}
+
+/**
+ * Finds tool outputs that are superseded by a later call with the same parameters.
+ *
+ * Outputs are grouped by tool name and parameter key. Since parameter keys are
+ * shortened for display (e.g. bash descriptions), calls are only treated as
+ * duplicates when their full parameters are also identical.
+ *
+ * @param toolOutputs - Tool outputs in the order they appear in the request
+ * @param toolMetadata - Tool names and parameters by call ID
+ * @param protectedTools - Tool names that are never deduplicated
+ * @returns IDs of the older copies, in request order
+ */
+export function findDuplicateToolOutputs(
+    toolOutputs: ToolOutput[],
+    toolMetadata: Map<string, ToolMetadata>,
+    protectedTools: string[]
+): string[] {
+    const groups = new Map<string, { id: string, parameters: string }[]>()
+
+    for (const output of toolOutputs) {
+        const metadata = toolMetadata.get(output.id)
+        if (!metadata || protectedTools.includes(metadata.tool)) continue
+
+        const key = getDeduplicationKey(metadata)
+        if (!key) continue
+
+        if (!groups.has(key)) {
+            groups.set(key, [])
+        }
+        groups.get(key)!.push({ id: output.id, parameters: JSON.stringify(metadata.parameters) })
+    }
+
+    const duplicates = new Set<string>()
+    for (const calls of groups.values()) {
+        if (calls.length < 2) continue
+
+        const latest = calls[calls.length - 1]
+        for (const call of calls.slice(0, -1)) {
+            if (call.parameters === latest.parameters) {
+                duplicates.add(call.id)
+            }
+        }
+    }
+
+    return toolOutputs.map(o => o.id).filter(id => duplicates.has(id))
+}
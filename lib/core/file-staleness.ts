@@ -0,0 +1,61 @@
+/**
+ * Invalidation of file reads made stale by later edits.
+ *
+ * When a file is read, then edited or written, the earlier read no longer shows
+ * the file as it is. Every later request would still carry that outdated copy,
+ * which wastes context and misleads the model about the current contents. Reads
+ * are matched to later mutations of the same file by the filePath parameter, and
+ * the stale reads are reported so the janitor can replace them with a marker.
+ */
+
+import type { ToolMetadata } from "../state"
+import type { ToolOutput } from "../fetch-wrapper/types"
+import { extractParameterKey } from "../ui/display-utils"
+
+export const FILE_MODIFIED_PLACEHOLDER = '[File modified since this read - re-read it if you need its current contents]'
+
+/** Tools whose output is a file's contents */
+const FILE_READ_TOOLS = ["read"]
+/** Tools that change a file's contents */
+const FILE_MUTATING_TOOLS = ["edit", "write"]
+
+/**
+ * Finds reads of files that were edited or written later in the request.
+ *
+ * A mutation only makes earlier reads stale if it did not fail. A read after the
+ * last mutation of its file is current and kept.
+ *
+ * @param toolOutputs - Tool outputs in the order they appear in the request
+ * @param toolMetadata - Tool names, parameters and status by call ID
+ * @param protectedTools - Tool names whose outputs are never invalidated
+ * @returns IDs of the stale reads, in request order
+ */
+export function findStaleFileReads(
+    toolOutputs: ToolOutput[],
+    toolMetadata: Map<string, ToolMetadata>,
+    protectedTools: string[]
+): string[] {
+    const readsByPath = new Map<string, string[]>()
+    const stale: string[] = []
+
+    for (const output of toolOutputs) {
+        const metadata = toolMetadata.get(output.id)
+        if (!metadata) continue
+
+        const filePath = extractParameterKey(metadata)
+        if (!filePath) continue
+
+        if (FILE_READ_TOOLS.includes(metadata.tool)) {
+            if (protectedTools.includes(metadata.tool)) continue
+            const reads = readsByPath.get(filePath) ?? []
+            reads.push(output.id)
+            readsByPath.set(filePath, reads)
+        } else if (FILE_MUTATING_TOOLS.includes(metadata.tool) && metadata.status !== 'error') {
+            stale.push(...readsByPath.get(filePath) ?? [])
+            readsByPath.delete(filePath)
+        }
+    }
+
+    const staleIds = new Set(stale)
+    return toolOutputs.map(o => o.id).filter(id => staleIds.has(id))
+}
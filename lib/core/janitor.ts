@@ -0,0 +1,543 @@
+/**
+ * Janitor - the pruning engine.
+ *
+ * Tracks the tool outputs each session sends to the model, decides which of them
+ * have gone stale, and replaces them with a short placeholder on every later request.
+ * Pruning decisions are made when a session goes idle, so the request body only
+ * changes between turns and never in the middle of one. Decisions are applied to
+ * requests with prompt caching in mind (see ./cache).
+ */
+
+import type { PluginState, ToolMetadata } from "../state"
+import type { Logger } from "../logger"
+import type { PluginConfig } from "../config"
+import type { FormatDescriptor, ToolOutput, RequestInterceptor } from "../fetch-wrapper"
+import { replaceToolOutput } from "../fetch-wrapper"
+import { fetchSessionMessages } from "../hooks"
+import { indexSessionMessages } from "../tool-index"
+import { estimateTokens, estimateToolOutputTokens, getSessionTokenizer } from "../tokenizer"
+import { findDuplicateToolOutputs } from "./deduplicator"
+import { findStaleFileReads, FILE_MODIFIED_PLACEHOLDER } from "./file-staleness"
+import { isProtected } from "./protection"
+import { createCacheState, planRewrite, type CacheState } from "./cache"
+import { sendUnifiedNotification, type NotificationContext } from "../ui/notification"
+import { takeUnreportedRedactions } from "./redaction"
+import type { Summarizer, SummaryCandidate } from "./summarizer"
+
+export interface SessionStats {
+    /** Tool outputs pruned as stale or on request */
+    totalToolsPruned: number
+    /** Estimated tokens removed by pruning */
+    totalTokensSaved: number
+    /** Tool outputs removed by automatic garbage collection (deduplication) */
+    totalGCTools: number
+    /** Estimated tokens removed by automatic garbage collection */
+    totalGCTokens: number
+    /** Previously cached prompt tokens that had to be processed again because of rewrites */
+    totalCacheMissTokens: number
+    /** Extra cost of re-caching those tokens, in input-token equivalents (see ./cache) */
+    totalCacheMissCost: number
+}
+
+export interface GCStats {
+    toolsDeduped: number
+    tokensCollected: number
+}
+
+export interface PruningResult {
+    prunedCount: number
+    tokensSaved: number
+    llmPrunedIds: string[]
+    /** Pruned outputs replaced with an LLM summary instead of the placeholder */
+    summarizedIds: string[]
+    toolMetadata: Map<string, ToolMetadata>
+    sessionStats: SessionStats
+}
+
+/**
+ * A tool output seen in a session's requests, recorded before any pruning.
+ */
+export interface TrackedToolOutput {
+    toolName?: string
+    tokens: number
+}
+
+/**
+ * A tool output currently known to the janitor, as listed to the model.
+ */
+export interface ContextEntry {
+    id: string
+    toolName?: string
+    tokens: number
+    metadata?: ToolMetadata
+    pruned: boolean
+    protected: boolean
+}
+
+export interface JanitorContext {
+    client: any
+    state: PluginState
+    logger: Logger
+    config: PluginConfig
+    workingDirectory?: string
+    /** Writes summaries of stale outputs before they are pruned */
+    summarizer?: Summarizer
+}
+
+export const PRUNED_OUTPUT_PLACEHOLDER = '[Output removed to save context - information superseded or no longer needed]'
+
+/**
+ * Returns the text that replaces a pruned tool output: its summary if it has one,
+ * the file-modified marker for a stale file read, or the generic placeholder.
+ */
+export function getPrunedReplacement(state: PluginState, id: string): string {
+    return state.summaries.get(id)
+        ?? (state.staleFileReads.has(id) ? FILE_MODIFIED_PLACEHOLDER : PRUNED_OUTPUT_PLACEHOLDER)
+}
+
+export function createGCStats(): GCStats {
+    return {
+        toolsDeduped: 0,
+        tokensCollected: 0,
+    }
+}
+
+export function createSessionStats(): SessionStats {
+    return {
+        totalToolsPruned: 0,
+        totalTokensSaved: 0,
+        totalGCTools: 0,
+        totalGCTokens: 0,
+        totalCacheMissTokens: 0,
+        totalCacheMissCost: 0,
+    }
+}
+
+export class Janitor {
+    constructor(private ctx: JanitorContext) {}
+
+    /**
+     * Records the tool outputs of a request so they can be judged for staleness later.
+     * Outputs that were already pruned are ignored, since their content is the placeholder.
+     */
+    trackToolOutputs(sessionId: string, toolOutputs: ToolOutput[]): void {
+        let tracked = this.ctx.state.trackedOutputs.get(sessionId)
+        if (!tracked) {
+            tracked = new Map()
+            this.ctx.state.trackedOutputs.set(sessionId, tracked)
+        }
+
+        const prunedIds = this.getPrunedIds(sessionId)
+        const tokenizer = getSessionTokenizer(this.ctx.state, sessionId)
+        for (const output of toolOutputs) {
+            if (tracked.has(output.id) || prunedIds.has(output.id)) continue
+            tracked.set(output.id, {
+                toolName: output.toolName?.toLowerCase(),
+                tokens: estimateToolOutputTokens(output, tokenizer)
+            })
+        }
+    }
+
+    /**
+     * Replaces the session's pruned tool outputs in the request body.
+     *
+     * Rewrites that were already sent are always re-applied so the cached prefix stays
+     * stable. New pruning decisions are held back while they would invalidate the
+     * provider's prompt cache for less than they save; see planRewrite. With `force`,
+     * they are applied regardless (used when the request is over its context budget).
+     * @returns Number of tool outputs replaced
+     */
+    applyPruning(sessionId: string, body: any, format: FormatDescriptor, force: boolean = false): number {
+        const prunedIds = this.ctx.state.prunedIds.get(sessionId) ?? []
+        const cacheState = this.getCacheState(sessionId)
+        const now = Date.now()
+
+        let replaced = this.replaceOutputs(sessionId, body, format, cacheState.appliedIds)
+
+        const applied = new Set(cacheState.appliedIds)
+        const pending = prunedIds.filter(id => !applied.has(id))
+        if (pending.length > 0) {
+            const rewritten = structuredClone(body)
+            this.replaceOutputs(sessionId, rewritten, format, pending)
+
+            const tracked = this.ctx.state.trackedOutputs.get(sessionId)
+            const pendingTokens = pending.reduce((sum, id) => sum + (tracked?.get(id)?.tokens ?? 0), 0)
+            const plan = planRewrite(
+                body,
+                rewritten,
+                format,
+                cacheState,
+                pendingTokens,
+                getSessionTokenizer(this.ctx.state, sessionId),
+                now,
+                this.ctx.config.cache
+            )
+
+            if (plan.apply || force) {
+                replaced += this.replaceOutputs(sessionId, body, format, pending)
+                cacheState.appliedIds.push(...pending)
+
+                if (plan.cacheMissTokens > 0) {
+                    const stats = this.getSessionStats(sessionId)
+                    stats.totalCacheMissTokens += plan.cacheMissTokens
+                    stats.totalCacheMissCost += plan.cacheMissCost
+                }
+                this.ctx.logger.info("janitor", "Applied pending pruning", {
+                    sessionId: sessionId.substring(0, 8),
+                    count: pending.length,
+                    reason: plan.apply ? plan.reason : 'forced',
+                    tokensSaved: pendingTokens,
+                    cacheMissTokens: plan.cacheMissTokens
+                })
+            } else {
+                this.ctx.logger.debug("janitor", "Deferred pruning to preserve prompt cache", {
+                    sessionId: sessionId.substring(0, 8),
+                    count: pending.length,
+                    cacheMissCost: Math.round(plan.cacheMissCost),
+                    projectedSavings: Math.round(plan.projectedSavings)
+                })
+            }
+        }
+
+        cacheState.lastRequestAt = now
+        cacheState.lastMessageCount = format.getDataArray(body)?.length ?? 0
+        return replaced
+    }
+
+    /**
+     * Lists the session's tracked tool outputs in order of appearance.
+     */
+    getContextEntries(sessionId: string): ContextEntry[] {
+        const tracked = this.ctx.state.trackedOutputs.get(sessionId)
+        if (!tracked) return []
+
+        const prunedIds = this.getPrunedIds(sessionId)
+        return Array.from(tracked.entries()).map(([id, output]) => {
+            const metadata = this.ctx.state.toolParameters.get(id)
+            return {
+                id,
+                toolName: metadata?.tool ?? output.toolName,
+                tokens: output.tokens,
+                metadata,
+                pruned: prunedIds.has(id),
+                protected: this.isProtected(id, output)
+            }
+        })
+    }
+
+    /**
+     * Returns the IDs of tracked outputs that are old enough, large enough and
+     * not protected, oldest first.
+     */
+    findStaleOutputs(sessionId: string): string[] {
+        const tracked = this.ctx.state.trackedOutputs.get(sessionId)
+        if (!tracked) return []
+
+        const prunedIds = this.getPrunedIds(sessionId)
+        const ids = Array.from(tracked.keys())
+        const candidates = ids.slice(0, Math.max(0, ids.length - this.ctx.config.keepRecentToolOutputs))
+
+        return candidates.filter(id => {
+            const output = tracked.get(id)!
+            return !prunedIds.has(id) &&
+                !this.isProtected(id, output) &&
+                output.tokens >= this.ctx.config.minPruneTokens
+        })
+    }
+
+    /**
+     * Replaces older copies of repeated tool calls in the current request.
+     * Deduplicated outputs are added to the session's pruned IDs, and the savings are
+     * collected in the session's pending GC stats until the next notification.
+     */
+    deduplicate(sessionId: string, toolOutputs: ToolOutput[]): GCStats {
+        const prunedIds = this.getPrunedIds(sessionId)
+        const candidates = toolOutputs.filter(o => !prunedIds.has(o.id))
+        const duplicateIds = findDuplicateToolOutputs(
+            candidates,
+            this.ctx.state.toolParameters,
+            this.ctx.config.protectedTools
+        )
+
+        const collected = this.collectGarbage(sessionId, duplicateIds)
+        if (collected.toolsDeduped > 0) {
+            this.ctx.logger.info("janitor", "Deduplicated repeated tool outputs", {
+                sessionId: sessionId.substring(0, 8),
+                deduped: collected.toolsDeduped,
+                tokensCollected: collected.tokensCollected
+            })
+        }
+        return collected
+    }
+
+    /**
+     * Replaces reads of files that were edited or written later in the current request
+     * with a marker telling the model to re-read them. Like deduplication, this counts
+     * as automatic garbage collection in the session's stats.
+     */
+    invalidateStaleReads(sessionId: string, toolOutputs: ToolOutput[]): GCStats {
+        const prunedIds = this.getPrunedIds(sessionId)
+        const candidates = toolOutputs.filter(o => !prunedIds.has(o.id))
+        const staleIds = findStaleFileReads(
+            candidates,
+            this.ctx.state.toolParameters,
+            this.ctx.config.protectedTools
+        ).filter(id => !this.isProtected(id))
+
+        for (const id of staleIds) {
+            this.ctx.state.staleFileReads.add(id)
+        }
+        const collected = this.collectGarbage(sessionId, staleIds)
+        if (collected.toolsDeduped > 0) {
+            this.ctx.logger.info("janitor", "Invalidated reads of modified files", {
+                sessionId: sessionId.substring(0, 8),
+                invalidated: collected.toolsDeduped,
+                tokensCollected: collected.tokensCollected
+            })
+        }
+        return collected
+    }
+
+    /**
+     * Marks tool outputs as pruned and updates the session statistics.
+     * IDs that are already pruned are skipped.
+     */
+    prune(sessionId: string, ids: string[]): PruningResult {
+        const { newlyPruned, tokensSaved } = this.markPruned(sessionId, ids)
+
+        const stats = this.getSessionStats(sessionId)
+        stats.totalToolsPruned += newlyPruned.length
+        stats.totalTokensSaved += tokensSaved
+
+        return {
+            prunedCount: newlyPruned.length,
+            tokensSaved,
+            llmPrunedIds: newlyPruned,
+            summarizedIds: newlyPruned.filter(id => this.ctx.state.summaries.has(id)),
+            toolMetadata: this.collectToolMetadata(newlyPruned),
+            sessionStats: { ...stats }
+        }
+    }
+
+    /**
+     * Prunes every stale output of the session, without notifying.
+     */
+    pruneStale(sessionId: string): PruningResult {
+        return this.prune(sessionId, this.findStaleOutputs(sessionId))
+    }
+
+    /**
+     * Prunes the stale outputs of a session that just went idle and notifies the user,
+     * including any deduplication that happened since the last notification.
+     * With a summarizer, large stale outputs are summarized first.
+     */
+    async runOnIdle(sessionId: string): Promise<PruningResult | null> {
+        const messages = await this.refreshToolMetadata(sessionId)
+
+        const staleIds = this.findStaleOutputs(sessionId)
+        if (this.ctx.summarizer && staleIds.length > 0) {
+            await this.ctx.summarizer.summarizeOutputs(sessionId, this.collectCandidates(messages, staleIds))
+        }
+
+        const result = this.prune(sessionId, staleIds)
+        const gcPending = this.ctx.state.gcPending.get(sessionId) ?? null
+        this.ctx.state.gcPending.delete(sessionId)
+        const redactions = takeUnreportedRedactions(this.ctx.state, sessionId)
+
+        if (result.prunedCount === 0 && !gcPending && redactions.length === 0) {
+            this.ctx.logger.debug("janitor", "No stale tool outputs", { sessionId: sessionId.substring(0, 8) })
+            return null
+        }
+
+        if (result.prunedCount > 0) {
+            this.ctx.logger.info("janitor", "Pruned stale tool outputs", {
+                sessionId: sessionId.substring(0, 8),
+                prunedCount: result.prunedCount,
+                tokensSaved: result.tokensSaved
+            })
+        }
+
+        await sendUnifiedNotification(this.getNotificationContext(), sessionId, {
+            aiPrunedCount: result.prunedCount,
+            aiTokensSaved: result.tokensSaved,
+            aiPrunedIds: result.llmPrunedIds,
+            toolMetadata: result.toolMetadata,
+            gcPending,
+            sessionStats: result.sessionStats,
+            redactions,
+            summarizedIds: result.summarizedIds
+        })
+
+        return result
+    }
+
+    /**
+     * Indexes the metadata of the session's tool calls from its OpenCode history.
+     * @returns The session's messages, or an empty array if they could not be loaded
+     */
+    async refreshToolMetadata(sessionId: string): Promise<any[]> {
+        try {
+            const messages = await fetchSessionMessages(this.ctx.client, sessionId)
+            indexSessionMessages(this.ctx.state, sessionId, messages)
+            return messages
+        } catch (error: any) {
+            this.ctx.logger.error("janitor", "Failed to load tool metadata", { error: error.message })
+            return []
+        }
+    }
+
+    getSessionStats(sessionId: string): SessionStats {
+        let stats = this.ctx.state.stats.get(sessionId)
+        if (!stats) {
+            stats = createSessionStats()
+            this.ctx.state.stats.set(sessionId, stats)
+        }
+        return stats
+    }
+
+    getNotificationContext(): NotificationContext {
+        return {
+            client: this.ctx.client,
+            logger: this.ctx.logger,
+            config: {
+                pruningSummary: this.ctx.config.pruningSummary,
+                workingDirectory: this.ctx.workingDirectory
+            }
+        }
+    }
+
+    private getCacheState(sessionId: string): CacheState {
+        let cacheState = this.ctx.state.cache.get(sessionId)
+        if (!cacheState) {
+            cacheState = createCacheState()
+            this.ctx.state.cache.set(sessionId, cacheState)
+        }
+        return cacheState
+    }
+
+    /**
+     * Collects the output content of the given calls from the session's messages.
+     */
+    private collectCandidates(messages: any[], ids: string[]): SummaryCandidate[] {
+        const wanted = new Set(ids)
+        const candidates: SummaryCandidate[] = []
+        for (const msg of messages) {
+            for (const part of msg.parts ?? []) {
+                const id = part.callID?.toLowerCase()
+                if (part.type !== 'tool' || !wanted.has(id) || part.state?.status !== 'completed') continue
+                if (typeof part.state.output !== 'string') continue
+                candidates.push({ id, content: part.state.output, metadata: this.ctx.state.toolParameters.get(id) })
+            }
+        }
+        return candidates
+    }
+
+    private replaceOutputs(sessionId: string, body: any, format: FormatDescriptor, ids: string[]): number {
+        let replaced = 0
+        for (const id of ids) {
+            const replacement = getPrunedReplacement(this.ctx.state, id)
+            if (replaceToolOutput(body, format, id, replacement, this.ctx.state, sessionId)) {
+                replaced++
+            }
+        }
+        return replaced
+    }
+
+    /**
+     * Prunes superseded outputs and adds them to the session's GC stats and to the
+     * pending GC stats reported in the next notification.
+     */
+    private collectGarbage(sessionId: string, ids: string[]): GCStats {
+        const { newlyPruned, tokensSaved } = this.markPruned(sessionId, ids)
+        const collected: GCStats = { toolsDeduped: newlyPruned.length, tokensCollected: tokensSaved }
+        if (newlyPruned.length === 0) return collected
+
+        const stats = this.getSessionStats(sessionId)
+        stats.totalGCTools += newlyPruned.length
+        stats.totalGCTokens += tokensSaved
+
+        const pending = this.ctx.state.gcPending.get(sessionId) ?? createGCStats()
+        pending.toolsDeduped += newlyPruned.length
+        pending.tokensCollected += tokensSaved
+        this.ctx.state.gcPending.set(sessionId, pending)
+
+        return collected
+    }
+
+    private markPruned(sessionId: string, ids: string[]): { newlyPruned: string[], tokensSaved: number } {
+        const tracked = this.ctx.state.trackedOutputs.get(sessionId)
+        const prunedIds = this.getPrunedIds(sessionId)
+
+        const newlyPruned: string[] = []
+        let tokensSaved = 0
+        for (const rawId of ids) {
+            const id = rawId.toLowerCase()
+            // Pinned and protected outputs are never pruned, whichever pass asks
+            if (prunedIds.has(id) || this.isProtected(id, tracked?.get(id))) continue
+            prunedIds.add(id)
+            newlyPruned.push(id)
+            // A summary stays in context, so only the difference is saved
+            const summary = this.ctx.state.summaries.get(id)
+            tokensSaved += Math.max(0, (tracked?.get(id)?.tokens ?? 0) - estimateTokens(summary))
+        }
+
+        this.ctx.state.prunedIds.set(sessionId, Array.from(prunedIds))
+        return { newlyPruned, tokensSaved }
+    }
+
+    private collectToolMetadata(ids: string[]): Map<string, ToolMetadata> {
+        const toolMetadata = new Map<string, ToolMetadata>()
+        for (const id of ids) {
+            const metadata = this.ctx.state.toolParameters.get(id)
+            if (metadata) {
+                toolMetadata.set(id, metadata)
+            }
+        }
+        return toolMetadata
+    }
+
+    private getPrunedIds(sessionId: string): Set<string> {
+        return new Set(this.ctx.state.prunedIds.get(sessionId) ?? [])
+    }
+
+    private isProtected(id: string, output?: TrackedToolOutput): boolean {
+        return isProtected(this.ctx.state, this.ctx.config, id, output?.toolName)
+    }
+}
+
+/**
+ * Creates a request interceptor that tracks tool outputs, invalidates reads of
+ * modified files, deduplicates repeated tool calls and applies the janitor's
+ * pruning decisions to every outgoing request.
+ * Subagent sessions with the "full" policy also have stale outputs pruned here,
+ * since they never go idle mid-run; "light" ones are only deduplicated (see
+ * ./subagents).
+ */
+export function createJanitorInterceptor(janitor: Janitor): RequestInterceptor {
+    return (body, format, _dataArray, toolOutputs, _url, ctx) => {
+        const sessionId = ctx.sessionId
+        if (!sessionId) {
+            return { body, modified: false }
+        }
+
+        janitor.trackToolOutputs(sessionId, toolOutputs)
+        // Stale reads first, so a read that is also repeated gets the more telling marker
+        if (ctx.subagentPolicy !== 'light') {
+            janitor.invalidateStaleReads(sessionId, toolOutputs)
+        }
+        janitor.deduplicate(sessionId, toolOutputs)
+        if (ctx.subagentPolicy === 'full') {
+            janitor.pruneStale(sessionId)
+        }
+        const replaced = janitor.applyPruning(sessionId, body, format)
+
+        if (replaced > 0) {
+            ctx.logger.debug("janitor", "Replaced pruned tool outputs", {
+                sessionId: sessionId.substring(0, 8),
+                replaced
+            })
+        }
+
+        return { body, modified: replaced > 0 }
+    }
+}
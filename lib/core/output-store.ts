@@ -0,0 +1,120 @@
+/**
+ * Local store for the full content of truncated tool outputs.
+ *
+ * Each output is written once to <directory>/<handle>.txt, where the handle is
+ * derived from a hash of the content. The same output therefore always gets the
+ * same handle, so a truncated output reads the same on every request and the
+ * prompt cache stays valid. A file's mtime is refreshed whenever its handle is
+ * stored again or read, and files untouched for maxAgeDays are deleted.
+ *
+ * Writes are synchronous so interceptors can truncate without awaiting; they only
+ * happen for outputs large enough to be truncated, and only once per handle.
+ */
+
+import { createHash } from "crypto"
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, unlinkSync, utimesSync, writeFileSync } from "fs"
+import { join } from "path"
+import { homedir } from "os"
+import type { Logger } from "../logger"
+
+export interface OutputStoreConfig {
+    /** Where full outputs are kept; defaults to ~/.config/opencode/<plugin>/outputs */
+    storeDirectory: string
+    /** Stored outputs not stored again or read for this long are deleted */
+    storeMaxAgeDays: number
+}
+
+const HANDLE_PATTERN = /^h_[0-9a-f]{12}$/
+
+export function getOutputStoreDirectory(config: OutputStoreConfig, pluginName: string): string {
+    if (!config.storeDirectory) {
+        return join(homedir(), ".config", "opencode", pluginName, "outputs")
+    }
+    return config.storeDirectory.startsWith("~/")
+        ? join(homedir(), config.storeDirectory.slice(2))
+        : config.storeDirectory
+}
+
+export function createOutputHandle(content: string): string {
+    return `h_${createHash('sha1').update(content).digest('hex').slice(0, 12)}`
+}
+
+export class OutputStore {
+    /** Handles written (or found on disk) by this process */
+    private known = new Set<string>()
+    private cleanedUp = false
+
+    constructor(
+        private directory: string,
+        private maxAgeDays: number,
+        private logger: Logger
+    ) {}
+
+    /**
+     * Stores a tool output's full content.
+     * @returns The handle to retrieve it with, or null if it could not be written
+     */
+    put(content: string): string | null {
+        const handle = createOutputHandle(content)
+        if (this.known.has(handle)) return handle
+
+        try {
+            mkdirSync(this.directory, { recursive: true, mode: 0o700 })
+            if (!this.cleanedUp) {
+                this.cleanedUp = true
+                this.deleteExpired()
+            }
+            const path = this.getPath(handle)
+            if (existsSync(path)) {
+                this.touch(path)
+            } else {
+                writeFileSync(path, content, { mode: 0o600 })
+            }
+            this.known.add(handle)
+            return handle
+        } catch (error: any) {
+            this.logger.error("output-store", "Failed to store tool output", { handle, error: error.message })
+            return null
+        }
+    }
+
+    /**
+     * Reads a stored output back, or returns null for unknown or malformed handles.
+     */
+    get(handle: string): string | null {
+        if (!HANDLE_PATTERN.test(handle)) return null
+        try {
+            const path = this.getPath(handle)
+            const content = readFileSync(path, "utf-8")
+            this.touch(path)
+            return content
+        } catch {
+            return null
+        }
+    }
+
+    /** Marks a stored output as in use, so it is not deleted as expired */
+    private touch(path: string): void {
+        try {
+            const now = new Date()
+            utimesSync(path, now, now)
+        } catch (error: any) {
+            this.logger.warn("output-store", "Failed to refresh stored output", { path, error: error.message })
+        }
+    }
+
+    private getPath(handle: string): string {
+        return join(this.directory, `${handle}.txt`)
+    }
+
+    private deleteExpired(): void {
+        const cutoff = Date.now() - this.maxAgeDays * 24 * 60 * 60 * 1000
+        for (const name of readdirSync(this.directory)) {
+            if (!name.endsWith(".txt")) continue
+            const path = join(this.directory, name)
+            if (statSync(path).mtimeMs < cutoff) {
+                unlinkSync(path)
+            }
+        }
+    }
+}
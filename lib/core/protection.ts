@@ -0,0 +1,180 @@
+/**
+ * Protection of tool outputs from modification.
+ *
+ * Some outputs must reach the model exactly as they are: the spec it was asked to
+ * follow, the todo list, anything the user refers to. An output is protected when
+ *
+ * - it is pinned: by call ID at runtime, through the context_pin tool. Pins are
+ *   enforced by replaceToolOutput itself, so no pass can rewrite a pinned output;
+ * - its tool is in protectedTools;
+ * - the file or directory it is about matches one of the protectedPaths globs.
+ *
+ * Every pass that decides what to rewrite (pruning, deduplication, stale reads,
+ * truncation, the context budget) skips protected outputs. Redaction does not:
+ * secrets are replaced whatever protects the output.
+ */
+
+import type { PluginState, ToolMetadata } from "../state"
+import type { PluginConfig } from "../config"
+import { createCacheState } from "./cache"
+
+export interface Pin {
+    sessionId: string
+    /** When the output was pinned, in milliseconds since the epoch */
+    pinnedAt: number
+    /** Why it was pinned, as given when pinning */
+    note?: string
+}
+
+export type ProtectionSource = "pinned" | "tool" | "path"
+
+export interface Protection {
+    source: ProtectionSource
+    /** The pin's note, the protected tool name or the matching glob */
+    detail?: string
+}
+
+export interface ProtectedOutput {
+    id: string
+    metadata?: ToolMetadata
+    protection: Protection
+}
+
+/**
+ * Checks whether a tool output is protected, and why. Pins take precedence, then
+ * protected tools, then path globs.
+ * @param toolName - The output's tool name from the request, used if the metadata index has none
+ */
+export function getProtection(
+    state: PluginState,
+    config: Pick<PluginConfig, "protectedTools" | "protectedPaths">,
+    id: string,
+    toolName?: string
+): Protection | null {
+    const callId = id.toLowerCase()
+    const pin = state.pins.get(callId)
+    if (pin) return { source: "pinned", detail: pin.note }
+
+    const metadata = state.toolParameters.get(callId)
+    const tool = metadata?.tool ?? toolName?.toLowerCase()
+    if (tool && config.protectedTools.includes(tool)) return { source: "tool", detail: tool }
+
+    const path = getToolPath(metadata)
+    if (path) {
+        const pattern = config.protectedPaths.find(glob => matchesGlob(path, glob))
+        if (pattern) return { source: "path", detail: pattern }
+    }
+    return null
+}
+
+export function isProtected(
+    state: PluginState,
+    config: Pick<PluginConfig, "protectedTools" | "protectedPaths">,
+    id: string,
+    toolName?: string
+): boolean {
+    return getProtection(state, config, id, toolName) !== null
+}
+
+/**
+ * Pins tool outputs of a session. A pinned output that was already pruned is
+ * restored: it is no longer replaced, so the next request carries it in full.
+ * @returns IDs that were newly pinned
+ */
+export function pinOutputs(state: PluginState, sessionId: string, ids: string[], note?: string): string[] {
+    const pinned: string[] = []
+    for (const rawId of ids) {
+        const id = rawId.toLowerCase()
+        if (state.pins.has(id)) continue
+        state.pins.set(id, { sessionId, pinnedAt: Date.now(), note })
+        pinned.push(id)
+    }
+
+    if (pinned.length > 0) {
+        const restored = new Set(pinned)
+        const prunedIds = state.prunedIds.get(sessionId)
+        if (prunedIds) {
+            state.prunedIds.set(sessionId, prunedIds.filter(id => !restored.has(id)))
+        }
+        const cache = state.cache.get(sessionId) ?? createCacheState()
+        cache.appliedIds = cache.appliedIds.filter(id => !restored.has(id))
+        state.cache.set(sessionId, cache)
+    }
+    return pinned
+}
+
+/**
+ * Removes pins of a session. Unpinned outputs can be pruned again later.
+ * @returns IDs that were unpinned
+ */
+export function unpinOutputs(state: PluginState, sessionId: string, ids: string[]): string[] {
+    const unpinned: string[] = []
+    for (const rawId of ids) {
+        const id = rawId.toLowerCase()
+        if (state.pins.get(id)?.sessionId !== sessionId) continue
+        state.pins.delete(id)
+        unpinned.push(id)
+    }
+    return unpinned
+}
+
+/**
+ * Lists the protected tool outputs of a session: every call known to belong to
+ * it (from its requests, history and tool events) and its pins.
+ */
+export function listProtectedOutputs(
+    state: PluginState,
+    config: Pick<PluginConfig, "protectedTools" | "protectedPaths">,
+    sessionId: string
+): ProtectedOutput[] {
+    const ids = new Set(state.trackedOutputs.get(sessionId)?.keys() ?? [])
+    for (const [id, owner] of state.toolCallSessions) {
+        if (owner === sessionId) ids.add(id)
+    }
+    for (const [id, pin] of state.pins) {
+        if (pin.sessionId === sessionId) ids.add(id)
+    }
+
+    const protectedOutputs: ProtectedOutput[] = []
+    for (const id of ids) {
+        const protection = getProtection(state, config, id, state.trackedOutputs.get(sessionId)?.get(id)?.toolName)
+        if (protection) {
+            protectedOutputs.push({ id, metadata: state.toolParameters.get(id), protection })
+        }
+    }
+    return protectedOutputs
+}
+
+/**
+ * Returns the file or directory a tool call is about, if any.
+ */
+function getToolPath(metadata: ToolMetadata | undefined): string | undefined {
+    const path = metadata?.parameters?.filePath ?? metadata?.parameters?.path
+    return typeof path === 'string' && path ? path : undefined
+}
+
+/**
+ * Matches a path against a glob. `*` and `?` stay within one path segment and
+ * `**` spans any number of them. A relative glob matches the end of the path at
+ * a segment boundary, so "docs/spec.md" matches "/home/me/project/docs/spec.md".
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+    const normalized = path.replace(/\\/g, '/')
+    let pattern = ''
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i]
+        if (char === '*' && glob[i + 1] === '*') {
+            const slash = glob[i + 2] === '/'
+            pattern += slash ? '(?:.*/)?' : '.*'
+            i += slash ? 2 : 1
+        } else if (char === '*') {
+            pattern += '[^/]*'
+        } else if (char === '?') {
+            pattern += '[^/]'
+        } else {
+            pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        }
+    }
+    const anchor = glob.startsWith('/') ? '^' : '(?:^|/)'
+    return new RegExp(`${anchor}${pattern}$`).test(normalized)
+}
@@ -0,0 +1,79 @@
+/**
+ * Subagent handling policy.
+ *
+ * Subagent sessions (spawned by the Task tool) can be handled differently from
+ * primary sessions, per agent name:
+ * - skip: requests pass through untouched
+ * - light: repeated tool outputs are deduplicated and secrets redacted, nothing
+ *   else: no stale reads, truncation or context budget
+ * - full: the primary pipeline, with stale outputs pruned on every request,
+ *   since a subagent's whole run is a single turn and it only goes idle when done
+ *
+ * Independently, a subagent's final result can be compressed before it is
+ * returned to the parent session.
+ */
+
+import type { PluginState } from "../state"
+import type { PluginConfig } from "../config"
+import { estimateTokens } from "../tokenizer"
+
+export type SubagentPolicy = "skip" | "light" | "full"
+
+export interface SubagentConfig {
+    /** Policy for subagents without an entry in `agents` */
+    default: SubagentPolicy
+    /** Policies by agent name, e.g. { "explore": "full" } */
+    agents: Record<string, SubagentPolicy>
+    /** Compress a subagent's result before it returns to the parent session */
+    compressResult: boolean
+    /** Estimated token size above which a subagent result is compressed */
+    maxResultTokens: number
+}
+
+/**
+ * Returns the policy for a session, or null if it is not a subagent session.
+ */
+export function getSubagentPolicy(
+    config: PluginConfig,
+    state: PluginState,
+    sessionId: string,
+    agent?: string
+): SubagentPolicy | null {
+    if (!state.subagentSessions.has(sessionId)) return null
+
+    const agentName = agent ?? state.sessionAgents.get(sessionId)
+    if (agentName && config.subagents.agents[agentName]) {
+        return config.subagents.agents[agentName]
+    }
+    return config.subagents.default
+}
+
+/**
+ * Shrinks a subagent's result to roughly maxTokens: blank-line runs and trailing
+ * whitespace are collapsed first, then the middle is cut, keeping the head and the
+ * tail (where task results put their conclusions and metadata).
+ *
+ * @returns The compressed text, or null if the result is already small enough
+ */
+export function compressSubagentResult(text: string, maxTokens: number): string | null {
+    if (estimateTokens(text) <= maxTokens) return null
+
+    const collapsed = text
+        .replace(/[ \t]+$/gm, "")
+        .replace(/\n{3,}/g, "\n\n")
+    const collapsedTokens = estimateTokens(collapsed)
+    if (collapsedTokens <= maxTokens) return collapsed
+
+    // Keep a third of the budget for the head and two thirds for the tail
+    const ratio = maxTokens / collapsedTokens
+    const keepChars = Math.floor(collapsed.length * ratio)
+    const headChars = Math.floor(keepChars / 3)
+    const tailChars = keepChars - headChars
+    const omittedTokens = estimateTokens(collapsed.slice(headChars, collapsed.length - tailChars))
+
+    return [
+        collapsed.slice(0, headChars),
+        `\n[... subagent result compressed: ~${omittedTokens} tokens omitted ...]\n`,
+        collapsed.slice(collapsed.length - tailChars)
+    ].join("")
+}
@@ -0,0 +1,267 @@
+/**
+ * LLM summarization of stale tool outputs.
+ *
+ * Instead of replacing a stale output with the generic placeholder, the janitor
+ * can replace it with a short summary written by a cheaper model. Summaries are
+ * made when a session goes idle, before its stale outputs are pruned, so requests
+ * never wait on a model call. They are cached by content hash: the same output is
+ * never summarized twice, even across sessions.
+ *
+ * The model sits behind the SummaryModel interface. The default implementation
+ * goes through the OpenCode client (see createClientSummaryModel); tests swap in a
+ * local stand-in. A call that times out is aborted, not only abandoned, so it stops
+ * running (and being billed).
+ */
+
+import type { PluginState, ModelInfo, ToolMetadata } from "../state"
+import type { Logger } from "../logger"
+import { hashContent } from "../fetch-wrapper/gemini-correlation"
+import { estimateTokens, formatTokenCount } from "../tokenizer"
+import { extractParameterKey } from "../ui/display-utils"
+
+export interface SummarizationConfig {
+    enabled: boolean
+    /** Model as "provider/model"; empty uses the session's own model */
+    model: string
+    /** Outputs smaller than this (in estimated tokens) are pruned without a summary */
+    minTokens: number
+    /** Length asked of each summary */
+    maxSummaryTokens: number
+    /** Model calls per idle run; the rest are pruned without a summary */
+    maxOutputsPerRun: number
+    /** A model call taking longer than this is aborted */
+    timeoutSeconds: number
+}
+
+export interface SummaryRequest {
+    /** Session the output belongs to */
+    sessionId: string
+    /** Model to summarize with */
+    model?: ModelInfo
+    toolName?: string
+    parameters?: any
+    content: string
+    maxTokens: number
+}
+
+/**
+ * Writes summaries. Implementations return null when no summary could be made,
+ * and stop the model call when the signal is aborted.
+ */
+export interface SummaryModel {
+    summarize(request: SummaryRequest, signal: AbortSignal): Promise<string | null>
+}
+
+/**
+ * A stale tool output to summarize.
+ */
+export interface SummaryCandidate {
+    id: string
+    content: string
+    metadata?: ToolMetadata
+}
+
+export interface SummarizerContext {
+    state: PluginState
+    logger: Logger
+    config: SummarizationConfig
+    model: SummaryModel
+}
+
+/** Summaries kept in the content-hash cache; the least recently used are dropped first */
+const MAX_CACHED_SUMMARIES = 500
+
+const SUMMARY_SYSTEM_PROMPT = `You summarize tool outputs from a coding session so they can be dropped from the context window.
+Write a compact, factual summary of what the output contains: key facts, names, paths, numbers, errors and conclusions another engineer would need later.
+Do not add commentary, do not use tools, and do not exceed the requested length.`
+
+/**
+ * Parses a "provider/model" string. The model ID may contain slashes itself.
+ */
+export function parseModelString(model: string): ModelInfo | undefined {
+    const slash = model.indexOf('/')
+    if (slash <= 0 || slash === model.length - 1) return undefined
+    return { providerID: model.slice(0, slash), modelID: model.slice(slash + 1) }
+}
+
+/**
+ * Looks up a cached summary by content hash, marking it as recently used.
+ */
+export function getCachedSummary(state: PluginState, hash: string): string | undefined {
+    const summary = state.summaryCache.get(hash)
+    if (summary !== undefined) {
+        // Maps keep insertion order: re-inserting moves the entry to the end
+        state.summaryCache.delete(hash)
+        state.summaryCache.set(hash, summary)
+    }
+    return summary
+}
+
+function cacheSummary(state: PluginState, hash: string, summary: string): void {
+    state.summaryCache.delete(hash)
+    state.summaryCache.set(hash, summary)
+    for (const oldest of state.summaryCache.keys()) {
+        if (state.summaryCache.size <= MAX_CACHED_SUMMARIES) break
+        state.summaryCache.delete(oldest)
+    }
+}
+
+export class Summarizer {
+    constructor(private ctx: SummarizerContext) {}
+
+    /**
+     * Summarizes stale outputs and records each summary as the replacement for its
+     * call ID, to be used instead of the placeholder when the output is pruned.
+     * @returns IDs of the outputs that got a summary
+     */
+    async summarizeOutputs(sessionId: string, candidates: SummaryCandidate[]): Promise<string[]> {
+        if (!this.ctx.config.enabled) return []
+
+        const model = parseModelString(this.ctx.config.model) ?? this.ctx.state.model.get(sessionId)
+        const summarized: string[] = []
+        let calls = 0
+
+        for (const candidate of candidates) {
+            if (this.ctx.state.summaries.has(candidate.id)) continue
+            if (estimateTokens(candidate.content) < this.ctx.config.minTokens) continue
+
+            const hash = hashContent(candidate.content)
+            let summary = getCachedSummary(this.ctx.state, hash)
+            if (summary === undefined) {
+                if (calls >= this.ctx.config.maxOutputsPerRun) continue
+                calls++
+                summary = await this.requestSummary({
+                    sessionId,
+                    model,
+                    toolName: candidate.metadata?.tool,
+                    parameters: candidate.metadata?.parameters,
+                    content: candidate.content,
+                    maxTokens: this.ctx.config.maxSummaryTokens
+                }) ?? undefined
+                if (summary === undefined) continue
+                cacheSummary(this.ctx.state, hash, summary)
+            }
+
+            this.ctx.state.summaries.set(candidate.id, formatSummary(summary, candidate))
+            summarized.push(candidate.id)
+        }
+
+        if (summarized.length > 0) {
+            this.ctx.logger.info("summarizer", "Summarized stale tool outputs", {
+                sessionId: sessionId.substring(0, 8),
+                summarized: summarized.length,
+                modelCalls: calls,
+                model: model ? `${model.providerID}/${model.modelID}` : undefined
+            })
+        }
+        return summarized
+    }
+
+    private async requestSummary(request: SummaryRequest): Promise<string | null> {
+        const controller = new AbortController()
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const timeout = new Promise<null>(resolve => {
+            timer = setTimeout(() => {
+                controller.abort()
+                resolve(null)
+            }, this.ctx.config.timeoutSeconds * 1000)
+        })
+
+        try {
+            const summary = await Promise.race([this.ctx.model.summarize(request, controller.signal), timeout])
+            if (controller.signal.aborted) {
+                this.ctx.logger.warn("summarizer", "Summary request timed out", { toolName: request.toolName })
+                return null
+            }
+            if (summary === null) {
+                this.ctx.logger.warn("summarizer", "No summary returned", { toolName: request.toolName })
+                return null
+            }
+            return summary.trim() || null
+        } catch (error: any) {
+            this.ctx.logger.error("summarizer", "Summary request failed", {
+                toolName: request.toolName,
+                error: error.message
+            })
+            return null
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+}
+
+/**
+ * Formats a summary as the replacement text of a tool output.
+ */
+export function formatSummary(summary: string, candidate: SummaryCandidate): string {
+    const paramKey = candidate.metadata ? extractParameterKey(candidate.metadata) : ''
+    const source = [candidate.metadata?.tool ?? 'tool', paramKey].filter(Boolean).join(': ')
+    const size = formatTokenCount(estimateTokens(candidate.content))
+    return `[Summary of an earlier ${source} output (~${size}), replaced to save context]\n${summary}`
+}
+
+/**
+ * Creates a SummaryModel that prompts a model through the OpenCode client.
+ *
+ * Each summary is written in a short-lived child session of the session being
+ * summarized. The child session is marked internal so the plugin leaves its
+ * requests and events alone, and it is deleted afterwards. When the signal is
+ * aborted the child session is aborted too, which stops its model call.
+ */
+export function createClientSummaryModel(client: any, state: PluginState, logger: Logger): SummaryModel {
+    return {
+        async summarize(request, signal) {
+            const created = await client.session.create({
+                body: { parentID: request.sessionId, title: "Context summary" }
+            })
+            const sessionId: string | undefined = created?.data?.id
+            if (!sessionId) return null
+
+            state.internalSessions.add(sessionId)
+            const abort = () => {
+                client.session.abort({ path: { id: sessionId } }).catch((error: any) => {
+                    logger.warn("summarizer", "Failed to abort summary session", { error: error.message })
+                })
+            }
+            signal.addEventListener("abort", abort, { once: true })
+            try {
+                if (signal.aborted) return null
+                const response = await client.session.prompt({
+                    path: { id: sessionId },
+                    body: {
+                        model: request.model && { providerID: request.model.providerID, modelID: request.model.modelID },
+                        system: SUMMARY_SYSTEM_PROMPT,
+                        // The summary is plain text: no tools for the summarizing model
+                        tools: { "*": false },
+                        parts: [{ type: "text", text: buildSummaryPrompt(request) }]
+                    }
+                })
+                const parts: any[] = response?.data?.parts ?? []
+                const text = parts
+                    .filter(part => part.type === "text" && typeof part.text === "string")
+                    .map(part => part.text)
+                    .join("\n")
+                return text || null
+            } finally {
+                signal.removeEventListener("abort", abort)
+                await client.session.delete({ path: { id: sessionId } }).catch((error: any) => {
+                    logger.warn("summarizer", "Failed to delete summary session", { error: error.message })
+                })
+                state.internalSessions.delete(sessionId)
+            }
+        }
+    }
+}
+
+function buildSummaryPrompt(request: SummaryRequest): string {
+    const source = request.toolName
+        ? [request.toolName, extractParameterKey({ tool: request.toolName, parameters: request.parameters })].filter(Boolean).join(' ')
+        : 'a tool'
+    return [
+        `Summarize this output of ${source} in at most ${request.maxTokens} tokens.`,
+        '',
+        '<output>',
+        request.content,
+        '</output>'
+    ].join('\n')
+}
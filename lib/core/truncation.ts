@@ -0,0 +1,154 @@
+/**
+ * Head/tail truncation of oversized tool outputs.
+ *
+ * A single bash or read output can run to tens of thousands of tokens. Outputs
+ * above their tool's limit keep their head and tail, and the middle is replaced
+ * with a marker naming the omitted line and byte range and a handle to the full
+ * content in the local output store (see ./output-store). The model can read any
+ * part of the original back with the context_retrieve tool.
+ *
+ * Truncation is deterministic, so an output is cut the same way on every request.
+ */
+
+import type { RequestInterceptor } from "../fetch-wrapper"
+import { replaceToolOutput } from "../fetch-wrapper"
+import { isProtected } from "./protection"
+import { estimateTokens, getSessionTokenizer, type TokenizerStrategy } from "../tokenizer"
+import type { OutputStore, OutputStoreConfig } from "./output-store"
+import type { PluginState } from "../state"
+
+export interface TruncationConfig extends OutputStoreConfig {
+    enabled: boolean
+    /** Outputs larger than this (in estimated tokens) are truncated */
+    defaultMaxTokens: number
+    /** Per-tool limits by tool name, overriding defaultMaxTokens; 0 never truncates that tool */
+    maxTokens: Record<string, number>
+    /** Tokens kept of a truncated output, split between its head and tail */
+    keepTokens: number
+}
+
+/** Outputs of the retrieval tool are never truncated, or reading a range could never succeed */
+export const RETRIEVE_TOOL_NAME = "context_retrieve"
+
+/**
+ * Cuts the middle out of a text, keeping roughly keepTokens split between its
+ * head and tail, on line boundaries where possible. With a store, the full text
+ * is saved and the marker carries its handle.
+ *
+ * @returns The truncated text, or null if the text is already small enough
+ */
+export function truncateOutput(
+    text: string,
+    keepTokens: number,
+    tokenizer: TokenizerStrategy,
+    store?: OutputStore | null
+): string | null {
+    const tokens = estimateTokens(text, tokenizer)
+    if (tokens <= keepTokens) return null
+
+    const keepChars = Math.floor(text.length * keepTokens / tokens)
+    let headEnd = Math.floor(keepChars / 2)
+    let tailStart = text.length - (keepChars - headEnd)
+
+    // Snap to line boundaries: the head ends after a newline, the tail starts after one
+    const headNewline = text.lastIndexOf('\n', headEnd)
+    if (headNewline > 0) headEnd = headNewline + 1
+    const tailNewline = text.indexOf('\n', tailStart)
+    if (tailNewline !== -1 && tailNewline < text.length - 1) tailStart = tailNewline + 1
+    if (tailStart <= headEnd) return null
+
+    const omitted = text.slice(headEnd, tailStart)
+    const firstLine = countLines(text.slice(0, headEnd)) + 1
+    const lastLine = firstLine + countLines(omitted) - (omitted.endsWith('\n') ? 1 : 0)
+    const firstByte = Buffer.byteLength(text.slice(0, headEnd))
+    const lastByte = firstByte + Buffer.byteLength(omitted)
+    const totalLines = countLines(text) + (text.endsWith('\n') ? 0 : 1)
+    const range = `lines ${firstLine}-${lastLine} of ${totalLines}, bytes ${firstByte}-${lastByte}`
+
+    const handle = store?.put(text)
+    const retrieval = handle
+        ? ` Full output stored as handle ${handle}; call ${RETRIEVE_TOOL_NAME} with it and a line or byte range to read the omitted part.`
+        : ''
+
+    return [
+        text.slice(0, headEnd),
+        `\n[... truncated to save context: ${range} (~${estimateTokens(omitted, tokenizer)} tokens) omitted.${retrieval} ...]\n`,
+        text.slice(tailStart)
+    ].join("")
+}
+
+function countLines(text: string): number {
+    let count = 0
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) count++
+    return count
+}
+
+/**
+ * Returns the size limit for a tool's outputs, or null if they are never truncated.
+ */
+export function getTruncationLimit(config: TruncationConfig, toolName: string | undefined): number | null {
+    const limit = toolName !== undefined && toolName in config.maxTokens
+        ? config.maxTokens[toolName]
+        : config.defaultMaxTokens
+    return limit > 0 ? limit : null
+}
+
+/**
+ * Returns the session's truncated outputs by call ID, creating the map if needed.
+ */
+function getTruncationRecords(state: PluginState, sessionId: string | null): Map<string, string> | null {
+    if (!sessionId) return null
+
+    let records = state.truncations.get(sessionId)
+    if (!records) {
+        records = new Map()
+        state.truncations.set(sessionId, records)
+    }
+    return records
+}
+
+/**
+ * Creates a request interceptor that truncates every tool output above its tool's
+ * limit. Protected tools and the retrieval tool are left alone, and so are
+ * subagent sessions with the "light" policy.
+ */
+export function createTruncationInterceptor(config: TruncationConfig, store: OutputStore): RequestInterceptor {
+    return (body, format, _dataArray, toolOutputs, _url, ctx) => {
+        if (!config.enabled || ctx.subagentPolicy === 'light') {
+            return { body, modified: false }
+        }
+
+        const tokenizer = getSessionTokenizer(ctx.state, ctx.sessionId)
+        const truncated: { id: string, tool?: string, tokens: number }[] = []
+        const records = getTruncationRecords(ctx.state, ctx.sessionId)
+
+        for (const output of toolOutputs) {
+            // Only outputs truncated in this request keep a record, so a pinned output no longer counts as truncated
+            records?.delete(output.id)
+            if (!output.content) continue
+
+            const toolName = ctx.state.toolParameters.get(output.id)?.tool ?? output.toolName?.toLowerCase()
+            if (toolName === RETRIEVE_TOOL_NAME || isProtected(ctx.state, ctx.config, output.id, toolName)) continue
+
+            const limit = getTruncationLimit(config, toolName)
+            if (limit === null) continue
+            const tokens = estimateTokens(output.content, tokenizer)
+            if (tokens <= limit) continue
+
+            const text = truncateOutput(output.content, Math.min(config.keepTokens, limit), tokenizer, store)
+            if (text && replaceToolOutput(body, format, output.id, text, ctx.state, ctx.sessionId)) {
+                truncated.push({ id: output.id, tool: toolName, tokens })
+                records?.set(output.id, text)
+            }
+        }
+
+        if (truncated.length > 0) {
+            ctx.logger.debug("truncation", "Truncated oversized tool outputs", {
+                sessionId: ctx.sessionId?.substring(0, 8),
+                outputs: truncated
+            })
+        }
+
+        return { body, modified: truncated.length > 0 }
+    }
+}
@@ -0,0 +1,196 @@
+/**
+ * Per-request session attribution.
+ *
+ * A fetch to a model provider carries no reliable session ID of its own, and
+ * state.lastSeenSessionId is only whatever chat.params saw most recently, which is
+ * wrong as soon as parallel subagents or several sessions are active. Each request
+ * is attributed from the most reliable source available:
+ * 1. header: an explicit session header (sent by OpenCode for some providers)
+ * 2. tool-calls: the request contains tool outputs whose call IDs are known to belong to a session
+ * 3. queue: the oldest pending chat.params call whose model matches the request
+ *
+ * A request matching none of them is left unattributed (source "none") rather than
+ * given to whichever session was seen last: processing it as another session's
+ * would apply that session's pruning to the wrong conversation.
+ */
+
+import type { PluginState, ModelInfo } from "../state"
+
+const SESSION_HEADERS = ['x-opencode-session', 'x-session-id']
+
+/** chat.params entries older than this can no longer be matched to a request */
+const PENDING_REQUEST_TTL_MS = 10 * 60 * 1000
+const MAX_PENDING_REQUESTS = 50
+
+/**
+ * A chat.params call waiting for its fetch.
+ */
+export interface PendingRequest {
+    sessionId: string
+    model?: ModelInfo
+    agent?: string
+    enqueuedAt: number
+    /** Set once a fetch has been attributed to this entry */
+    consumed: boolean
+}
+
+export interface RequestAttribution {
+    sessionId: string | null
+    model?: ModelInfo
+    agent?: string
+    source: 'header' | 'tool-calls' | 'queue' | 'none'
+}
+
+/**
+ * Records a chat.params call so the fetch it triggers can be attributed to its session.
+ */
+export function enqueuePendingRequest(
+    state: PluginState,
+    sessionId: string,
+    model?: ModelInfo,
+    agent?: string
+): void {
+    const now = Date.now()
+    state.pendingRequests = state.pendingRequests
+        .filter(r => now - r.enqueuedAt < PENDING_REQUEST_TTL_MS)
+        .slice(-(MAX_PENDING_REQUESTS - 1))
+    state.pendingRequests.push({ sessionId, model, agent, enqueuedAt: now, consumed: false })
+}
+
+/**
+ * Records which session a tool call belongs to.
+ */
+export function recordToolCallSession(state: PluginState, callId: string, sessionId: string): void {
+    state.toolCallSessions.set(callId.toLowerCase(), sessionId)
+}
+
+/**
+ * Attributes an outgoing request to the session that made it.
+ *
+ * @param toolOutputIds - Tool call IDs found in the request body
+ */
+export function attributeRequest(
+    state: PluginState,
+    body: any,
+    url: string,
+    headers: any,
+    toolOutputIds: string[]
+): RequestAttribution {
+    const withSessionInfo = (sessionId: string, source: RequestAttribution['source']): RequestAttribution => {
+        const pending = takePendingRequest(state, body, url, sessionId)
+        return {
+            sessionId,
+            model: pending?.model ?? state.model.get(sessionId),
+            agent: pending?.agent,
+            source
+        }
+    }
+
+    for (const name of SESSION_HEADERS) {
+        const headerSessionId = getHeader(headers, name)
+        if (headerSessionId) {
+            return withSessionInfo(headerSessionId, 'header')
+        }
+    }
+
+    const owner = findToolCallOwner(state, toolOutputIds)
+    if (owner) {
+        return withSessionInfo(owner, 'tool-calls')
+    }
+
+    const pending = takePendingRequest(state, body, url)
+    if (pending) {
+        return { sessionId: pending.sessionId, model: pending.model, agent: pending.agent, source: 'queue' }
+    }
+
+    return { sessionId: null, source: 'none' }
+}
+
+/**
+ * Reads a header from any of the shapes fetch accepts: Headers, an array of pairs or a record.
+ */
+export function getHeader(headers: any, name: string): string | undefined {
+    if (!headers) return undefined
+
+    if (typeof headers.get === 'function') {
+        return headers.get(name) ?? undefined
+    }
+    if (Array.isArray(headers)) {
+        const entry = headers.find(([key]: [string, string]) => key.toLowerCase() === name)
+        return entry?.[1]
+    }
+    for (const [key, value] of Object.entries(headers)) {
+        if (key.toLowerCase() === name && typeof value === 'string') return value
+    }
+    return undefined
+}
+
+/**
+ * Returns the session owning the most tool outputs of the request, if any are known.
+ */
+function findToolCallOwner(state: PluginState, toolOutputIds: string[]): string | null {
+    const votes = new Map<string, number>()
+    for (const id of toolOutputIds) {
+        const owner = state.toolCallSessions.get(id)
+        if (owner) {
+            votes.set(owner, (votes.get(owner) ?? 0) + 1)
+        }
+    }
+
+    let best: string | null = null
+    let bestVotes = 0
+    for (const [sessionId, count] of votes) {
+        if (count > bestVotes) {
+            best = sessionId
+            bestVotes = count
+        }
+    }
+    return best
+}
+
+/**
+ * Takes the oldest unconsumed pending request matching the request's model
+ * (and session, when already known). One chat.params call can lead to several
+ * fetches, so once every match was consumed the most recent one is reused, but
+ * only for a known session: without one, reusing it would hand a stray fetch to
+ * whichever session last ran chat.params.
+ */
+function takePendingRequest(
+    state: PluginState,
+    body: any,
+    url: string,
+    sessionId?: string
+): PendingRequest | undefined {
+    const now = Date.now()
+    const requestModel = getRequestModel(body, url)
+
+    const candidates = state.pendingRequests.filter(r =>
+        now - r.enqueuedAt < PENDING_REQUEST_TTL_MS &&
+        (!sessionId || r.sessionId === sessionId) &&
+        modelMatches(r.model, requestModel)
+    )
+
+    const next = candidates.find(r => !r.consumed)
+    if (next) {
+        next.consumed = true
+        return next
+    }
+    return sessionId ? candidates[candidates.length - 1] : undefined
+}
+
+/**
+ * Gets the model ID a request targets: body.model for OpenAI and Anthropic,
+ * the URL path for Gemini (/models/{id}:...) and Bedrock (/model/{id}/...).
+ */
+function getRequestModel(body: any, url: string): string | undefined {
+    if (typeof body?.model === 'string') return body.model.toLowerCase()
+
+    const match = url.match(/\/models?\/([^/:?]+)/)
+    return match ? decodeURIComponent(match[1]).toLowerCase() : undefined
+}
+
+function modelMatches(model: ModelInfo | undefined, requestModel: string | undefined): boolean {
+    if (!model || !requestModel) return true
+    const modelID = model.modelID.toLowerCase()
+    return requestModel.includes(modelID) || modelID.includes(requestModel)
+}
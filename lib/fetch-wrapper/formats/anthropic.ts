@@ -0,0 +1,113 @@
+/**
+ * Anthropic Messages API format handler.
+ * Handles body.messages with tool_use / tool_result content blocks.
+ *
+ * Anthropic differs from OpenAI Chat in ways that matter for rewriting:
+ * - The system prompt is a top-level `system` field (string or text blocks), not a message
+ * - Tool calls: `tool_use` blocks in assistant content with `id` and `name`
+ * - Tool results: `tool_result` blocks in user content with `tool_use_id`
+ * - `thinking` / `redacted_thinking` blocks carry signatures and must be sent back unmodified
+ * - Any block may carry `cache_control`, marking a prompt-cache breakpoint
+ */
+
+import type { FormatDescriptor, ToolOutput } from "../types"
+import type { PluginState } from "../../state"
+
+const ANTHROPIC_BLOCK_TYPES = new Set(['tool_use', 'tool_result', 'thinking', 'redacted_thinking'])
+
+export const anthropicFormat: FormatDescriptor = {
+    name: 'anthropic',
+
+    detect(body: any): boolean {
+        if (!Array.isArray(body.messages)) return false
+
+        // OpenAI Chat keeps the system prompt in messages[], never at the top level
+        if (body.system !== undefined || body.anthropic_version !== undefined) {
+            return true
+        }
+
+        return body.messages.some((m: any) =>
+            Array.isArray(m.content) &&
+            m.content.some((block: any) => ANTHROPIC_BLOCK_TYPES.has(block?.type))
+        )
+    },
+
+    getDataArray(body: any): any[] | undefined {
+        return body.messages
+    },
+
+    extractToolOutputs(data: any[], _state: PluginState): ToolOutput[] {
+        const outputs: ToolOutput[] = []
+        const toolNamesById = new Map<string, string>()
+
+        for (const m of data) {
+            if (!Array.isArray(m.content)) continue
+
+            // tool_use blocks always precede their results, so names are known by the time we need them
+            if (m.role === 'assistant') {
+                for (const block of m.content) {
+                    if (block.type === 'tool_use' && block.id && block.name) {
+                        toolNamesById.set(block.id.toLowerCase(), block.name)
+                    }
+                }
+            }
+
+            if (m.role === 'user') {
+                for (const block of m.content) {
+                    if (block.type === 'tool_result' && block.tool_use_id) {
+                        const id = block.tool_use_id.toLowerCase()
+                        outputs.push({
+                            id,
+                            toolName: toolNamesById.get(id),
+                            content: getToolResultText(block.content)
+                        })
+                    }
+                }
+            }
+        }
+
+        return outputs
+    },
+
+    hasToolOutputs(data: any[]): boolean {
+        for (const m of data) {
+            if (m.role === 'user' && Array.isArray(m.content)) {
+                for (const block of m.content) {
+                    if (block.type === 'tool_result') return true
+                }
+            }
+        }
+        return false
+    },
+
+    getLogMetadata(data: any[], inputUrl: string): Record<string, any> {
+        let thinkingBlocks = 0
+        let cacheBreakpoints = 0
+        for (const m of data) {
+            if (!Array.isArray(m.content)) continue
+            for (const block of m.content) {
+                if (block.type === 'thinking' || block.type === 'redacted_thinking') thinkingBlocks++
+                if (block.cache_control) cacheBreakpoints++
+            }
+        }
+
+        return {
+            url: inputUrl,
+            totalMessages: data.length,
+            thinkingBlocks,
+            cacheBreakpoints,
+            format: 'anthropic'
+        }
+    }
+}
+
+/**
+ * Flattens tool_result content, which is either a string or an array of content blocks.
+ */
+function getToolResultText(content: any): string {
+    if (typeof content === 'string') return content
+    if (Array.isArray(content)) {
+        return content.map((c: any) => c.type === 'text' ? c.text : JSON.stringify(c)).join('\n')
+    }
+    return JSON.stringify(content)
+}
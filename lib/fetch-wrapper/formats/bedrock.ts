@@ -38,7 +38,7 @@ export const bedrockFormat: FormatDescriptor = {
                             id: toolUseId,
                             toolName: undefined,
                             content: Array.isArray(content) 
-                                ? content.map((c: any) => c.text || JSON.stringify(c)).join('\n')
+                                ? content.map((c: any) => typeof c.text === 'string' ? c.text : JSON.stringify(c)).join('\n')
                                 : JSON.stringify(content)
                         })
                     }
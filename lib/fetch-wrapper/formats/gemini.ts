@@ -3,11 +3,13 @@
  * Handles body.contents with functionResponse parts.
  * 
  * Note: Gemini doesn't include tool call IDs in its native format.
- * Position-based correlation is used via state.googleToolCallMapping.
+ * IDs are recovered from the owning session's state.googleToolCallMapping,
+ * see ../gemini-correlation.
  */
 
 import type { FormatDescriptor, ToolOutput } from "../types"
 import type { PluginState } from "../../state"
+import { resolveGeminiToolCalls } from "../gemini-correlation"
 
 export const geminiFormat: FormatDescriptor = {
     name: 'gemini',
@@ -20,66 +22,15 @@ export const geminiFormat: FormatDescriptor = {
         return body.contents
     },
 
-    extractToolOutputs(data: any[], state: PluginState): ToolOutput[] {
-        const outputs: ToolOutput[] = []
+    extractToolOutputs(data: any[], state: PluginState, sessionId?: string | null): ToolOutput[] {
+        // Correlation is built per session by hooks.ts from the session's history
+        const mapping = sessionId ? state.googleToolCallMapping.get(sessionId) : undefined
 
-        // Get position mapping from state (built by hooks.ts)
-        let positionMapping: Map<string, string> | undefined
-        for (const [_sessionId, mapping] of state.googleToolCallMapping) {
-            if (mapping && mapping.size > 0) {
-                positionMapping = mapping
-                break
-            }
-        }
-
-        if (!positionMapping) {
-            // Fall back to extracting without IDs
-            for (const content of data) {
-                if (!Array.isArray(content.parts)) continue
-
-                for (const part of content.parts) {
-                    if (part.functionResponse) {
-                        const funcName = part.functionResponse.name?.toLowerCase()
-                        const response = part.functionResponse.response
-                        outputs.push({
-                            id: `gemini-${funcName}-${outputs.length}`,
-                            toolName: funcName,
-                            content: response?.content || JSON.stringify(response)
-                        })
-                    }
-                }
-            }
-            return outputs
-        }
-
-        // Use position-based correlation
-        const toolPositionCounters = new Map<string, number>()
-
-        for (const content of data) {
-            if (!Array.isArray(content.parts)) continue
-
-            for (const part of content.parts) {
-                if (part.functionResponse) {
-                    const funcName = part.functionResponse.name?.toLowerCase()
-                    if (funcName) {
-                        const currentIndex = toolPositionCounters.get(funcName) || 0
-                        toolPositionCounters.set(funcName, currentIndex + 1)
-
-                        const positionKey = `${funcName}:${currentIndex}`
-                        const toolCallId = positionMapping.get(positionKey)
-
-                        const response = part.functionResponse.response
-                        outputs.push({
-                            id: toolCallId?.toLowerCase() || `gemini-${funcName}-${currentIndex}`,
-                            toolName: funcName,
-                            content: response?.content || JSON.stringify(response)
-                        })
-                    }
-                }
-            }
-        }
-
-        return outputs
+        return resolveGeminiToolCalls(data, mapping).map(call => ({
+            id: call.id,
+            toolName: call.functionName,
+            content: call.content
+        }))
     },
 
     hasToolOutputs(data: any[]): boolean {
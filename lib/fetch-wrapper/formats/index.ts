@@ -1,4 +1,5 @@
 export { openaiChatFormat } from './openai-chat'
+export { anthropicFormat } from './anthropic'
 export { openaiResponsesFormat } from './openai-responses'
 export { geminiFormat } from './gemini'
 export { bedrockFormat } from './bedrock'
@@ -1,11 +1,26 @@
 /**
  * OpenAI Chat Completions API format handler.
  * Handles body.messages with role='tool' for tool results.
+ * 
+ * Anthropic requests also use body.messages but are handled by anthropicFormat,
+ * which must be checked first.
  */
 
 import type { FormatDescriptor, ToolOutput } from "../types"
 import type { PluginState } from "../../state"
 
+/**
+ * Tool message content is a string, or an array of text parts when the request is
+ * bound for Anthropic through an OpenAI-compatible proxy (the parts carry cache_control).
+ */
+function getTextContent(content: any): string {
+    if (typeof content === 'string') return content
+    if (Array.isArray(content) && content.every((p: any) => p?.type === 'text')) {
+        return content.map((p: any) => p.text).join('')
+    }
+    return JSON.stringify(content)
+}
+
 export const openaiChatFormat: FormatDescriptor = {
     name: 'openai-chat',
 
@@ -21,42 +36,20 @@ export const openaiChatFormat: FormatDescriptor = {
         const outputs: ToolOutput[] = []
 
         for (const m of data) {
-            // OpenAI native format: role='tool' with tool_call_id
             if (m.role === 'tool' && m.tool_call_id) {
                 outputs.push({
                     id: m.tool_call_id.toLowerCase(),
                     toolName: m.name,
-                    content: typeof m.content === 'string' ? m.content : JSON.stringify(m.content)
+                    content: getTextContent(m.content)
                 })
             }
-
-            // Anthropic format: role='user' with tool_result parts
-            if (m.role === 'user' && Array.isArray(m.content)) {
-                for (const part of m.content) {
-                    if (part.type === 'tool_result' && part.tool_use_id) {
-                        outputs.push({
-                            id: part.tool_use_id.toLowerCase(),
-                            toolName: undefined,
-                            content: typeof part.content === 'string' ? part.content : JSON.stringify(part.content)
-                        })
-                    }
-                }
-            }
         }
 
         return outputs
     },
 
     hasToolOutputs(data: any[]): boolean {
-        for (const m of data) {
-            if (m.role === 'tool') return true
-            if (m.role === 'user' && Array.isArray(m.content)) {
-                for (const part of m.content) {
-                    if (part.type === 'tool_result') return true
-                }
-            }
-        }
-        return false
+        return data.some((m: any) => m.role === 'tool')
     },
 
     getLogMetadata(data: any[], inputUrl: string): Record<string, any> {
@@ -0,0 +1,190 @@
+/**
+ * Tool call ID correlation for Gemini.
+ *
+ * Gemini's native format drops tool call IDs: a functionResponse only carries the
+ * function name. IDs are recovered from the owning session's OpenCode history in
+ * two ways:
+ * - by position: the Nth response of function X is the Nth call of X in history
+ * - by content: the response content hashes to the output of exactly one call
+ *
+ * Positions are used while they agree with the content hashes. When they don't
+ * (e.g. parallel calls to the same function answered in a different order, or
+ * history that was compacted), that function falls back to content hashing.
+ */
+
+import { createHash } from "crypto"
+
+export interface GeminiToolCallMapping {
+    /** Maps `${functionName}:${index}` to the call ID of the index-th call of that function */
+    byPosition: Map<string, string>
+    /** Maps a content hash to the call IDs whose output has that hash, in call order */
+    byContentHash: Map<string, string[]>
+}
+
+/**
+ * A functionResponse part in a Gemini request, with its resolved call ID.
+ */
+export interface ResolvedGeminiCall {
+    contentIndex: number
+    partIndex: number
+    functionName: string
+    id: string
+    /** How the ID was resolved */
+    source: 'position' | 'hash' | 'synthetic'
+    content: string
+}
+
+/**
+ * Resolutions are cached per data array so IDs stay stable while parts are being
+ * replaced (replacing content would otherwise change its hash match). Content is
+ * re-read from the array on every call.
+ */
+const resolutionCache = new WeakMap<any[], { mapping?: GeminiToolCallMapping, calls: ResolvedGeminiCall[] }>()
+
+export function createGeminiToolCallMapping(): GeminiToolCallMapping {
+    return {
+        byPosition: new Map(),
+        byContentHash: new Map(),
+    }
+}
+
+/**
+ * Builds the mapping from a session's full OpenCode message history.
+ */
+export function buildGeminiToolCallMapping(messages: any[]): GeminiToolCallMapping {
+    const mapping = createGeminiToolCallMapping()
+    const callCounts = new Map<string, number>()
+
+    for (const msg of messages) {
+        if (!msg.parts) continue
+        for (const part of msg.parts) {
+            if (part.type !== 'tool' || !part.callID || !part.tool) continue
+
+            const toolName = part.tool.toLowerCase()
+            const callId = part.callID.toLowerCase()
+            const index = callCounts.get(toolName) || 0
+            callCounts.set(toolName, index + 1)
+            mapping.byPosition.set(`${toolName}:${index}`, callId)
+
+            const output = part.state?.status === 'completed' ? part.state.output
+                : part.state?.status === 'error' ? part.state.error
+                : undefined
+            if (typeof output === 'string') {
+                const hash = hashContent(output)
+                if (!mapping.byContentHash.has(hash)) {
+                    mapping.byContentHash.set(hash, [])
+                }
+                mapping.byContentHash.get(hash)!.push(callId)
+            }
+        }
+    }
+
+    return mapping
+}
+
+/**
+ * Finds every functionResponse in a Gemini data array and resolves its call ID.
+ * Responses that can't be resolved get a synthetic `gemini-<name>-<index>` ID.
+ */
+export function resolveGeminiToolCalls(data: any[], mapping?: GeminiToolCallMapping): ResolvedGeminiCall[] {
+    const cached = resolutionCache.get(data)
+    if (cached && cached.mapping === mapping && refreshContent(data, cached.calls)) {
+        return cached.calls
+    }
+
+    const calls: ResolvedGeminiCall[] = []
+    const positionCounters = new Map<string, number>()
+    const positionIds: (string | undefined)[] = []
+    const hashIds: (string | undefined)[] = []
+    const hashCandidates = new Map<string, string[]>()
+    const outOfSync = new Set<string>()
+
+    for (let contentIndex = 0; contentIndex < data.length; contentIndex++) {
+        const parts = data[contentIndex]?.parts
+        if (!Array.isArray(parts)) continue
+
+        for (let partIndex = 0; partIndex < parts.length; partIndex++) {
+            const functionResponse = parts[partIndex].functionResponse
+            if (!functionResponse) continue
+
+            const functionName = functionResponse.name?.toLowerCase() ?? 'unknown'
+            const index = positionCounters.get(functionName) || 0
+            positionCounters.set(functionName, index + 1)
+
+            const content = getResponseContent(functionResponse)
+
+            const positionId = mapping?.byPosition.get(`${functionName}:${index}`)
+            const hashId = mapping ? takeHashMatch(mapping, hashCandidates, hashContent(content)) : undefined
+            if (hashId && positionId && hashId !== positionId) {
+                outOfSync.add(functionName)
+            }
+
+            positionIds.push(positionId)
+            hashIds.push(hashId)
+            calls.push({
+                contentIndex,
+                partIndex,
+                functionName,
+                id: `gemini-${functionName}-${index}`,
+                source: 'synthetic',
+                content
+            })
+        }
+    }
+
+    calls.forEach((call, i) => {
+        if (!outOfSync.has(call.functionName) && positionIds[i]) {
+            call.id = positionIds[i]!
+            call.source = 'position'
+        } else if (hashIds[i]) {
+            call.id = hashIds[i]!
+            call.source = 'hash'
+        }
+    })
+
+    resolutionCache.set(data, { mapping, calls })
+    return calls
+}
+
+/**
+ * Updates cached calls with the current content of their parts.
+ * @returns false if a part is no longer a functionResponse and the cache is stale
+ */
+function refreshContent(data: any[], calls: ResolvedGeminiCall[]): boolean {
+    for (const call of calls) {
+        const functionResponse = data[call.contentIndex]?.parts?.[call.partIndex]?.functionResponse
+        if (!functionResponse) return false
+        call.content = getResponseContent(functionResponse)
+    }
+    return true
+}
+
+function getResponseContent(functionResponse: any): string {
+    const response = functionResponse.response
+    return typeof response?.content === 'string' ? response.content : JSON.stringify(response)
+}
+
+export function hashContent(content: string): string {
+    return createHash('sha1').update(content).digest('hex')
+}
+
+/**
+ * Takes the next unused call ID with the given content hash.
+ * Identical outputs are matched to calls in order.
+ */
+function takeHashMatch(
+    mapping: GeminiToolCallMapping,
+    taken: Map<string, string[]>,
+    hash: string
+): string | undefined {
+    const ids = mapping.byContentHash.get(hash)
+    if (!ids) return undefined
+
+    const used = taken.get(hash) ?? []
+    const next = ids.find(id => !used.includes(id))
+    if (next) {
+        used.push(next)
+        taken.set(hash, used)
+    }
+    return next
+}
@@ -4,7 +4,7 @@
  * 
  * Supports 5 API formats:
  * 1. OpenAI Chat Completions (body.messages with role='tool')
- * 2. Anthropic (body.messages with role='user' containing tool_result)
+ * 2. Anthropic Messages (body.system + body.messages with tool_use/tool_result blocks)
  * 3. Google/Gemini (body.contents with functionResponse parts)
  * 4. OpenAI Responses API (body.input with function_call_output items)
  * 5. AWS Bedrock Converse API (body.system + body.messages with toolResult blocks)
@@ -12,11 +12,37 @@
 
 import type { PluginState } from "../state"
 import type { Logger } from "../logger"
+import { createRequestId } from "../logger"
 import type { PluginConfig } from "../config"
 import type { FetchHandlerContext, FetchHandlerResult, FormatDescriptor, ToolOutput } from "./types"
-import { openaiChatFormat, openaiResponsesFormat, geminiFormat, bedrockFormat } from "./formats"
+import { openaiChatFormat, openaiResponsesFormat, anthropicFormat, geminiFormat, bedrockFormat } from "./formats"
+import { resolveGeminiToolCalls } from "./gemini-correlation"
+import { attributeRequest, recordToolCallSession } from "./attribution"
+import { observeResponse } from "./response"
+import { readFetchRequest, type FetchRequest } from "./request"
+import { enrichToolOutputs, updateToolMetadata } from "../tool-index"
+import { RequestRecorder, getRecordingDirectory, diffJson } from "./recorder"
+import { PLUGIN_NAME } from "../config"
+import type { ResponseInterceptor, ResponseSummary } from "./response"
+import { getSubagentPolicy } from "../core/subagents"
+import { estimateDataArrayTokens, getSessionTokenizer } from "../tokenizer"
 
 export type { FetchHandlerContext, FetchHandlerResult, FormatDescriptor, ToolOutput } from "./types"
+export type { RequestAttribution } from "./attribution"
+export { InterceptorChain, DEFAULT_INTERCEPTOR_PRIORITY } from "./interceptor-chain"
+export type { RegisteredInterceptor, InterceptorOverride } from "./interceptor-chain"
+export type { ResponseInterceptor, ResponseSummary, ResponseUsage, ResponseToolCall } from "./response"
+export type { Recording, JsonChange } from "./recorder"
+
+/**
+ * Result of a request interceptor.
+ * Set `stop` to skip the remaining interceptors of an InterceptorChain.
+ */
+export interface InterceptorResult {
+    body: any
+    modified: boolean
+    stop?: boolean
+}
 
 /**
  * Callback type for request interception.
@@ -29,7 +55,7 @@ export type RequestInterceptor = (
     toolOutputs: ToolOutput[],
     url: string,
     ctx: FetchHandlerContext
-) => Promise<{ body: any; modified: boolean }> | { body: any; modified: boolean }
+) => Promise<InterceptorResult> | InterceptorResult
 
 /**
  * Creates and installs a wrapped global fetch that intercepts API calls.
@@ -39,6 +65,7 @@ export type RequestInterceptor = (
  * @param client - OpenCode client
  * @param config - Plugin configuration
  * @param interceptor - Your custom function to handle intercepted requests
+ * @param responseInterceptor - Optional function called with a summary of each response
  * @returns Cleanup function to restore original fetch
  */
 export function installFetchWrapper(
@@ -46,7 +73,8 @@ export function installFetchWrapper(
     logger: Logger,
     client: any,
     config: PluginConfig,
-    interceptor: RequestInterceptor
+    interceptor: RequestInterceptor,
+    responseInterceptor?: ResponseInterceptor
 ): () => void {
     const originalGlobalFetch = globalThis.fetch
 
@@ -55,37 +83,91 @@ export function installFetchWrapper(
         logger,
         client,
         config,
+        sessionId: null,
     }
 
+    const recorder = config.recorder.enabled
+        ? new RequestRecorder(getRecordingDirectory(config.recorder, PLUGIN_NAME), logger, config.redaction)
+        : null
+
     globalThis.fetch = async (input: any, init?: any) => {
-        // Skip processing for subagent sessions
-        if (state.lastSeenSessionId && state.subagentSessions.has(state.lastSeenSessionId)) {
-            logger.debug("fetch-wrapper", "Skipping processing for subagent session", {
-                sessionId: state.lastSeenSessionId.substring(0, 8)
+        let processed: FetchHandlerResult | undefined
+        let recordingFile: Promise<string | null> | undefined
+        let args: [any, any] = [input, init]
+        let inputUrl = ''
+
+        let request: FetchRequest | undefined
+        try {
+            request = await readFetchRequest(input, init)
+            args = request.original()
+        } catch (e) {
+            logger.debug("fetch-wrapper", "Failed to read request, passing through", {
+                error: e instanceof Error ? e.message : 'Unknown error'
             })
-            return originalGlobalFetch(input, init)
         }
 
-        if (init?.body && typeof init.body === 'string') {
+        if (request?.bodyText !== undefined) {
+            // Every entry logged for this fetch carries its correlation ID
+            const requestLogger = logger.child({ requestId: createRequestId() })
+            const requestCtx: FetchHandlerContext = { ...ctx, logger: requestLogger }
+
+            let body: any
             try {
-                const body = JSON.parse(init.body)
-                const inputUrl = typeof input === 'string' ? input : 'URL object'
-                
-                // Detect format and process
-                const result = await processRequest(body, ctx, inputUrl, interceptor)
-                
-                if (result.modified) {
-                    init.body = JSON.stringify(result.body)
-                }
+                body = JSON.parse(request.bodyText)
             } catch (e) {
-                // Silently ignore parsing errors - pass through unchanged
-                logger.debug("fetch-wrapper", "Failed to parse request body", { 
+                // Not JSON - pass through unchanged
+                requestLogger.debug("fetch-wrapper", "Failed to parse request body", { 
                     error: e instanceof Error ? e.message : 'Unknown error' 
                 })
             }
+
+            if (body !== undefined) {
+                inputUrl = request.url
+                const requestText: string = request.bodyText
+                try {
+                    // Detect format and process
+                    const result = await processRequest(body, requestCtx, inputUrl, interceptor, request.headers)
+                    processed = result
+                    
+                    if (result.modified) {
+                        args = request.withBody(JSON.stringify(result.body))
+                    }
+
+                    if (recorder) {
+                        recordingFile = recorder.recordRequest(requestText, inputUrl, result).catch((error: any) => {
+                            requestLogger.error("recorder", "Failed to record request", { error: error?.message ?? String(error) })
+                            return null
+                        })
+                    }
+                } catch (e) {
+                    // The request is still sent unchanged, but a failing pipeline must not go unnoticed
+                    requestLogger.error("fetch-wrapper", "Failed to process request", {
+                        url: inputUrl,
+                        error: e instanceof Error ? e.message : 'Unknown error'
+                    })
+                }
+            }
         }
 
-        return originalGlobalFetch(input, init)
+        const response = await originalGlobalFetch(...args)
+        if (!processed?.format || !processed.ctx) return response
+
+        const requestCtx = processed.ctx
+        return observeResponse(
+            response,
+            processed.format,
+            inputUrl,
+            processed.estimatedTokens,
+            requestCtx,
+            async (summary) => {
+                recordResponse(summary, requestCtx)
+                const file = await recordingFile
+                if (recorder && file) {
+                    await recorder.recordResponse(file, summary)
+                }
+                await responseInterceptor?.(summary, requestCtx)
+            }
+        )
     }
 
     // Return cleanup function
@@ -97,15 +179,20 @@ export function installFetchWrapper(
 /**
  * Detects the API format and extracts relevant data.
  */
-function detectFormat(body: any): FormatDescriptor | null {
-    // Order matters: bedrockFormat must be checked before openaiChatFormat
-    // since both have messages[] but Bedrock has distinguishing system[] array
+export function detectFormat(body: any): FormatDescriptor | null {
+    // Order matters: bedrockFormat, then anthropicFormat, must be checked before
+    // openaiChatFormat since all three have messages[]. Bedrock has a distinguishing
+    // system[] array plus inferenceConfig; Anthropic has a top-level system field
+    // or tool_use/tool_result/thinking content blocks.
     if (openaiResponsesFormat.detect(body)) {
         return openaiResponsesFormat
     }
     if (bedrockFormat.detect(body)) {
         return bedrockFormat
     }
+    if (anthropicFormat.detect(body)) {
+        return anthropicFormat
+    }
     if (openaiChatFormat.detect(body)) {
         return openaiChatFormat
     }
@@ -116,18 +203,20 @@ function detectFormat(body: any): FormatDescriptor | null {
 }
 
 /**
- * Processes a request through format detection and the interceptor.
+ * Processes a request through format detection, session attribution and the interceptor.
+ * Exported for the replay runner, which feeds recorded bodies through it offline.
  */
-async function processRequest(
+export async function processRequest(
     body: any,
-    ctx: FetchHandlerContext,
+    baseCtx: FetchHandlerContext,
     inputUrl: string,
-    interceptor: RequestInterceptor
+    interceptor: RequestInterceptor,
+    headers?: any
 ): Promise<FetchHandlerResult> {
     const format = detectFormat(body)
     
     if (!format) {
-        ctx.logger.debug("fetch-wrapper", "Unknown request format, passing through", { url: inputUrl })
+        baseCtx.logger.debug("fetch-wrapper", "Unknown request format, passing through", { url: inputUrl })
         return { modified: false, body }
     }
 
@@ -136,47 +225,148 @@ async function processRequest(
         return { modified: false, body }
     }
 
-    const toolOutputs = format.extractToolOutputs(dataArray, ctx.state)
+    const unattributedOutputs = format.extractToolOutputs(dataArray, baseCtx.state, null)
+    const attribution = attributeRequest(
+        baseCtx.state,
+        body,
+        inputUrl,
+        headers,
+        unattributedOutputs.map(o => o.id)
+    )
+    const subagentPolicy = attribution.sessionId
+        ? getSubagentPolicy(baseCtx.config, baseCtx.state, attribution.sessionId, attribution.agent) ?? undefined
+        : undefined
+    const ctx: FetchHandlerContext = {
+        ...baseCtx,
+        logger: attribution.sessionId
+            ? baseCtx.logger.child({ sessionId: attribution.sessionId.substring(0, 8) })
+            : baseCtx.logger,
+        sessionId: attribution.sessionId,
+        attribution,
+        subagentPolicy
+    }
+
+    if (ctx.sessionId && ctx.state.internalSessions.has(ctx.sessionId)) {
+        ctx.logger.debug("fetch-wrapper", "Skipping processing for internal session")
+        return { modified: false, body }
+    }
+
+    if (subagentPolicy === 'skip') {
+        ctx.logger.debug("fetch-wrapper", "Skipping processing for subagent session")
+        return { modified: false, body }
+    }
+
+    // Re-extract now that the session is known: Gemini tool call IDs depend on it
+    const toolOutputs = enrichToolOutputs(ctx.state, format.extractToolOutputs(dataArray, ctx.state, ctx.sessionId))
+    const tokenizer = getSessionTokenizer(ctx.state, ctx.sessionId)
 
     ctx.logger.debug("fetch-wrapper", `Intercepted ${format.name} request`, {
         url: inputUrl,
+        attribution: attribution.source,
+        subagentPolicy,
         messageCount: dataArray.length,
-        toolOutputCount: toolOutputs.length
+        toolOutputCount: toolOutputs.length,
+        estimatedTokens: estimateDataArrayTokens(dataArray, format, tokenizer)
     })
 
+    // Interceptors modify the body in place, so keep the original for the payload dump
+    const original = ctx.logger.payloads ? structuredClone(body) : undefined
+
     // Call the user's interceptor
     const result = await interceptor(body, format, dataArray, toolOutputs, inputUrl, ctx)
 
+    if (original !== undefined) {
+        ctx.logger.payload("fetch-wrapper", "Request payload", {
+            url: inputUrl,
+            format: format.name,
+            modified: result.modified,
+            before: original,
+            after: result.modified ? result.body : undefined,
+            diff: result.modified ? diffJson(original, result.body) : []
+        })
+    }
+
     if (result.modified) {
         ctx.logger.info("fetch-wrapper", `Request modified by interceptor (${format.name})`, {
             url: inputUrl
         })
     }
 
+    const finalDataArray = result.modified ? format.getDataArray(result.body) ?? dataArray : dataArray
+
     return {
         modified: result.modified,
         body: result.body,
         format,
         toolOutputs,
-        dataArray
+        dataArray,
+        ctx,
+        estimatedTokens: estimateDataArrayTokens(finalDataArray, format, tokenizer)
+    }
+}
+
+/**
+ * Records what a response reported: the session's token usage, and the tool
+ * calls it made (so their metadata and session are known before any hook runs).
+ */
+function recordResponse(summary: ResponseSummary, ctx: FetchHandlerContext): void {
+    if (ctx.sessionId && summary.usage) {
+        ctx.state.usage.set(ctx.sessionId, summary.usage)
+        // What the estimate misses (system prompt, tool definitions, tokenizer drift)
+        if (summary.usage.inputTokens !== undefined && summary.estimatedInputTokens !== undefined) {
+            ctx.state.tokenEstimateOffsets.set(ctx.sessionId, summary.usage.inputTokens - summary.estimatedInputTokens)
+        }
     }
+
+    for (const call of summary.toolCalls) {
+        if (!call.id) continue
+        updateToolMetadata(ctx.state, call.id, { tool: call.name, parameters: call.arguments, status: "pending" })
+        if (ctx.sessionId) {
+            recordToolCallSession(ctx.state, call.id, ctx.sessionId)
+        }
+    }
+
+    ctx.logger.payload("fetch-wrapper", "Response summary", {
+        url: summary.url,
+        status: summary.status,
+        streamed: summary.streamed,
+        usage: summary.usage,
+        toolCalls: summary.toolCalls
+    })
+
+    ctx.logger.debug("fetch-wrapper", `Observed ${summary.format.name} response`, {
+        url: summary.url,
+        streamed: summary.streamed,
+        inputTokens: summary.usage?.inputTokens,
+        estimatedInputTokens: summary.estimatedInputTokens,
+        outputTokens: summary.usage?.outputTokens,
+        cacheReadTokens: summary.usage?.cacheReadTokens,
+        toolCalls: summary.toolCalls.map(c => c.name)
+    })
 }
 
 /**
  * Utility function to replace a tool output in the request body.
  * Useful for implementing context pruning or content modification.
+ * Pinned outputs (see ../core/protection) are left alone unless overridePins is set.
+ * 
+ * @param sessionId - Session that owns the request, needed to resolve Gemini tool call IDs
+ * @param options.overridePins - Replace even a pinned output (redaction)
  */
 export function replaceToolOutput(
     body: any,
     format: FormatDescriptor,
     toolId: string,
     newContent: string,
-    state: PluginState
+    state: PluginState,
+    sessionId: string | null,
+    options: { overridePins?: boolean } = {}
 ): boolean {
     const dataArray = format.getDataArray(body)
     if (!dataArray) return false
 
     const toolIdLower = toolId.toLowerCase()
+    if (state.pins.has(toolIdLower) && !options.overridePins) return false
     let replaced = false
 
     // Handle each format's structure
@@ -185,17 +375,29 @@ export function replaceToolOutput(
             for (let i = 0; i < dataArray.length; i++) {
                 const m = dataArray[i]
                 if (m.role === 'tool' && m.tool_call_id?.toLowerCase() === toolIdLower) {
-                    dataArray[i] = { ...m, content: newContent }
+                    // Text parts collapse into one, keeping the cache breakpoint of the last part
+                    const cacheControl = Array.isArray(m.content) ? m.content.filter((p: any) => p?.cache_control).pop()?.cache_control : undefined
+                    const content = Array.isArray(m.content)
+                        ? [{ type: 'text', text: newContent, ...(cacheControl && { cache_control: cacheControl }) }]
+                        : newContent
+                    dataArray[i] = { ...m, content }
                     replaced = true
                 }
+            }
+            break
+
+        case 'anthropic':
+            // Only the tool_result content changes; cache_control and is_error stay on the block
+            for (let i = 0; i < dataArray.length; i++) {
+                const m = dataArray[i]
                 if (m.role === 'user' && Array.isArray(m.content)) {
                     let modified = false
-                    const newContentArray = m.content.map((part: any) => {
-                        if (part.type === 'tool_result' && part.tool_use_id?.toLowerCase() === toolIdLower) {
+                    const newContentArray = m.content.map((block: any) => {
+                        if (block.type === 'tool_result' && block.tool_use_id?.toLowerCase() === toolIdLower) {
                             modified = true
-                            return { ...part, content: newContent }
+                            return { ...block, content: newContent }
                         }
-                        return part
+                        return block
                     })
                     if (modified) {
                         dataArray[i] = { ...m, content: newContentArray }
@@ -215,58 +417,30 @@ export function replaceToolOutput(
             }
             break
 
-        case 'gemini':
-            // Gemini requires position-based replacement
-            let positionMapping: Map<string, string> | undefined
-            for (const [_sessionId, mapping] of state.googleToolCallMapping) {
-                if (mapping && mapping.size > 0) {
-                    positionMapping = mapping
-                    break
-                }
-            }
-
-            if (positionMapping) {
-                const toolPositionCounters = new Map<string, number>()
-                for (let i = 0; i < dataArray.length; i++) {
-                    const content = dataArray[i]
-                    if (!Array.isArray(content.parts)) continue
-
-                    let contentModified = false
-                    const newParts = content.parts.map((part: any) => {
-                        if (part.functionResponse) {
-                            const funcName = part.functionResponse.name?.toLowerCase()
-                            if (funcName) {
-                                const currentIndex = toolPositionCounters.get(funcName) || 0
-                                toolPositionCounters.set(funcName, currentIndex + 1)
-
-                                const positionKey = `${funcName}:${currentIndex}`
-                                const mappedToolId = positionMapping!.get(positionKey)
-
-                                if (mappedToolId?.toLowerCase() === toolIdLower) {
-                                    contentModified = true
-                                    replaced = true
-                                    return {
-                                        ...part,
-                                        functionResponse: {
-                                            ...part.functionResponse,
-                                            response: {
-                                                name: part.functionResponse.name,
-                                                content: newContent
-                                            }
-                                        }
-                                    }
-                                }
-                            }
+        case 'gemini': {
+            // Gemini has no IDs in the body; resolve them through the session's correlation
+            const mapping = sessionId ? state.googleToolCallMapping.get(sessionId) : undefined
+            for (const call of resolveGeminiToolCalls(dataArray, mapping)) {
+                if (call.id.toLowerCase() !== toolIdLower) continue
+
+                const content = dataArray[call.contentIndex]
+                const newParts = [...content.parts]
+                const part = newParts[call.partIndex]
+                newParts[call.partIndex] = {
+                    ...part,
+                    functionResponse: {
+                        ...part.functionResponse,
+                        response: {
+                            name: part.functionResponse.name,
+                            content: newContent
                         }
-                        return part
-                    })
-
-                    if (contentModified) {
-                        dataArray[i] = { ...content, parts: newParts }
                     }
                 }
+                dataArray[call.contentIndex] = { ...content, parts: newParts }
+                replaced = true
             }
             break
+        }
 
         case 'bedrock':
             for (let i = 0; i < dataArray.length; i++) {
@@ -326,6 +500,18 @@ export function injectIntoLastUserMessage(
                 }
                 break
 
+            case 'anthropic':
+                // Text blocks may follow tool_result blocks in the same user turn
+                if (item.role === 'user') {
+                    if (typeof item.content === 'string') {
+                        item.content = item.content + '\n\n' + content
+                    } else if (Array.isArray(item.content)) {
+                        item.content.push({ type: 'text', text: content })
+                    }
+                    return true
+                }
+                break
+
             case 'openai-responses':
                 if (item.type === 'message' && item.role === 'user') {
                     if (typeof item.content === 'string') {
@@ -377,6 +563,10 @@ export function appendUserMessage(
             dataArray.push({ role: 'user', content })
             return true
 
+        case 'anthropic':
+            dataArray.push({ role: 'user', content: [{ type: 'text', text: content }] })
+            return true
+
         case 'openai-responses':
             dataArray.push({ type: 'message', role: 'user', content })
             return true
@@ -0,0 +1,114 @@
+/**
+ * Composable chain of named request interceptors.
+ *
+ * Interceptors run in priority order (lowest first). Each one sees the body as
+ * left by the previous ones, with tool outputs re-extracted after any modification.
+ * Every interceptor is isolated: it runs on a copy of the body, which is only kept
+ * if it succeeds, so a failure halfway through leaves no partial edits behind. Its
+ * errors are logged and the chain carries on, and its run time is recorded. An
+ * interceptor can stop the chain by returning `stop: true`.
+ *
+ * Interceptors can be disabled or re-prioritized by name through the
+ * `interceptors` config key.
+ */
+
+import type { RequestInterceptor } from "./index"
+import { enrichToolOutputs } from "../tool-index"
+
+export const DEFAULT_INTERCEPTOR_PRIORITY = 100
+
+export interface RegisteredInterceptor {
+    name: string
+    /** Lower priorities run first */
+    priority: number
+    interceptor: RequestInterceptor
+}
+
+export interface InterceptorOverride {
+    enabled?: boolean
+    priority?: number
+}
+
+export class InterceptorChain {
+    private entries: RegisteredInterceptor[] = []
+
+    /**
+     * Adds a named interceptor. Names must be unique.
+     */
+    register(name: string, interceptor: RequestInterceptor, priority: number = DEFAULT_INTERCEPTOR_PRIORITY): this {
+        if (this.entries.some(e => e.name === name)) {
+            throw new Error(`Interceptor "${name}" is already registered`)
+        }
+        this.entries.push({ name, priority, interceptor })
+        return this
+    }
+
+    unregister(name: string): boolean {
+        const before = this.entries.length
+        this.entries = this.entries.filter(e => e.name !== name)
+        return this.entries.length !== before
+    }
+
+    /**
+     * Returns the enabled interceptors in run order, with config overrides applied.
+     */
+    list(overrides: Record<string, InterceptorOverride> = {}): RegisteredInterceptor[] {
+        return this.entries
+            .filter(e => overrides[e.name]?.enabled !== false)
+            .map(e => ({ ...e, priority: overrides[e.name]?.priority ?? e.priority }))
+            // Array.prototype.sort is stable, so equal priorities keep registration order
+            .sort((a, b) => a.priority - b.priority)
+    }
+
+    /**
+     * Combines the chain into a single interceptor for installFetchWrapper.
+     */
+    toInterceptor(): RequestInterceptor {
+        return async (body, format, _dataArray, toolOutputs, url, ctx) => {
+            let currentBody = body
+            let currentToolOutputs = toolOutputs
+            let modified = false
+
+            for (const entry of this.list(ctx.config.interceptors)) {
+                const start = performance.now()
+                try {
+                    const workingBody = structuredClone(currentBody)
+                    const result = await entry.interceptor(
+                        workingBody,
+                        format,
+                        format.getDataArray(workingBody) ?? [],
+                        currentToolOutputs.map(o => ({ ...o })),
+                        url,
+                        ctx
+                    )
+
+                    ctx.logger.debug("interceptor-chain", `${entry.name} finished`, {
+                        durationMs: (performance.now() - start).toFixed(1),
+                        modified: result.modified
+                    })
+
+                    if (result.modified) {
+                        modified = true
+                        currentBody = result.body
+                        currentToolOutputs = enrichToolOutputs(
+                            ctx.state,
+                            format.extractToolOutputs(format.getDataArray(currentBody) ?? [], ctx.state, ctx.sessionId)
+                        )
+                    }
+
+                    if (result.stop) {
+                        ctx.logger.debug("interceptor-chain", `${entry.name} stopped the chain`)
+                        break
+                    }
+                } catch (error: any) {
+                    ctx.logger.error("interceptor-chain", `${entry.name} failed, continuing with the next interceptor`, {
+                        error: error?.message ?? String(error),
+                        durationMs: (performance.now() - start).toFixed(1)
+                    })
+                }
+            }
+
+            return { body: currentBody, modified }
+        }
+    }
+}
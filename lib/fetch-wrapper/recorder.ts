@@ -0,0 +1,197 @@
+/**
+ * Request/response recorder.
+ *
+ * When `recorder.enabled` is set, every intercepted request is written to a local
+ * corpus as one JSON file: the body as OpenCode sent it, the detected format, the
+ * body after the interceptors and a diff of the two. The response summary (usage,
+ * tool calls) is added once the response has been read.
+ *
+ * Every string in a recording (request, rewritten body, tool call arguments) is
+ * run through the redaction rules before it is written, whether or not redaction
+ * is enabled for requests: recordings are meant to be kept and shared as test
+ * fixtures. They are also written readable by the owner only. See ./replay for
+ * running them again.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from "fs/promises"
+import { join } from "path"
+import { homedir } from "os"
+import type { Logger } from "../logger"
+import type { FetchHandlerResult } from "./types"
+import type { RequestAttribution } from "./attribution"
+import type { ResponseSummary, ResponseUsage, ResponseToolCall } from "./response"
+import { createJsonRedactor, type RedactionConfig } from "../core/redaction"
+
+export const RECORDING_VERSION = 1
+
+export interface RecorderConfig {
+    enabled: boolean
+    /** Corpus directory; empty uses ~/.config/opencode/logs/dcp/recordings */
+    directory: string
+}
+
+/**
+ * A change between the request as sent by OpenCode and as sent to the provider.
+ */
+export interface JsonChange {
+    /** Location of the change, e.g. messages[3].content */
+    path: string
+    before?: any
+    after?: any
+}
+
+export interface Recording {
+    version: typeof RECORDING_VERSION
+    recordedAt: string
+    url: string
+    /** Detected format name, or null if the request was passed through as unknown */
+    format: string | null
+    sessionId: string | null
+    attribution?: RequestAttribution['source']
+    model?: RequestAttribution['model']
+    /** The body as OpenCode sent it */
+    request: any
+    modified: boolean
+    /** The body as sent to the provider, when it differs from the request */
+    after?: any
+    diff: JsonChange[]
+    response?: {
+        status: number
+        streamed: boolean
+        usage?: ResponseUsage
+        toolCalls: ResponseToolCall[]
+    }
+}
+
+export function getRecordingDirectory(config: RecorderConfig, pluginName: string): string {
+    if (!config.directory) {
+        return join(homedir(), ".config", "opencode", "logs", pluginName, "recordings")
+    }
+    return config.directory.startsWith("~/") ? join(homedir(), config.directory.slice(2)) : config.directory
+}
+
+export class RequestRecorder {
+    private sequence = 0
+    private redact: <T>(value: T) => T
+
+    constructor(private directory: string, private logger: Logger, redaction: RedactionConfig) {
+        this.redact = createJsonRedactor(redaction)
+    }
+
+    /**
+     * Records a processed request.
+     * @param requestText - The request body exactly as OpenCode sent it
+     * @returns The recording's file path, to attach the response to later
+     */
+    async recordRequest(requestText: string, url: string, result: FetchHandlerResult): Promise<string> {
+        const request = this.redact(JSON.parse(requestText))
+        const after = result.modified ? this.redact(result.body) : undefined
+        const recording: Recording = {
+            version: RECORDING_VERSION,
+            recordedAt: new Date().toISOString(),
+            url,
+            format: result.format?.name ?? null,
+            sessionId: result.ctx?.sessionId ?? null,
+            attribution: result.ctx?.attribution?.source,
+            model: result.ctx?.attribution?.model,
+            request,
+            modified: result.modified,
+            after,
+            diff: after !== undefined ? diffJson(request, after) : []
+        }
+
+        const day = recording.recordedAt.slice(0, 10)
+        const dayDirectory = join(this.directory, day)
+        await mkdir(dayDirectory, { recursive: true, mode: 0o700 })
+
+        const time = recording.recordedAt.slice(11, 23).replace(/[:.]/g, "")
+        const sequence = String(++this.sequence).padStart(4, "0")
+        const file = join(dayDirectory, `${time}-${sequence}-${recording.format ?? "unknown"}.json`)
+        await writeRecording(file, recording)
+
+        this.logger.debug("recorder", "Recorded request", {
+            file,
+            format: recording.format,
+            changes: recording.diff.length
+        })
+        return file
+    }
+
+    /**
+     * Adds a response summary to an existing recording.
+     */
+    async recordResponse(file: string, summary: ResponseSummary): Promise<void> {
+        const recording = await readRecording(file)
+        recording.response = {
+            status: summary.status,
+            streamed: summary.streamed,
+            usage: summary.usage,
+            toolCalls: this.redact(summary.toolCalls)
+        }
+        await writeRecording(file, recording)
+    }
+}
+
+export async function readRecording(file: string): Promise<Recording> {
+    const recording = JSON.parse(await readFile(file, "utf-8"))
+    if (recording.version !== RECORDING_VERSION) {
+        throw new Error(`Unsupported recording version ${recording.version} in ${file}`)
+    }
+    return recording
+}
+
+/**
+ * Loads every recording under a directory (recursively), in file name order.
+ */
+export async function loadRecordings(directory: string): Promise<Array<{ file: string, recording: Recording }>> {
+    const entries = await readdir(directory, { recursive: true })
+    const files = entries
+        .filter(entry => entry.endsWith(".json"))
+        .sort()
+        .map(entry => join(directory, entry))
+
+    const recordings: Array<{ file: string, recording: Recording }> = []
+    for (const file of files) {
+        recordings.push({ file, recording: await readRecording(file) })
+    }
+    return recordings
+}
+
+/**
+ * Lists the differences between two JSON values. Objects and arrays are compared
+ * element by element; anything else is reported as a change of the whole value.
+ */
+export function diffJson(before: any, after: any, path: string = ""): JsonChange[] {
+    if (before === after) return []
+
+    const bothArrays = Array.isArray(before) && Array.isArray(after)
+    const bothObjects = isObject(before) && isObject(after) && !Array.isArray(before) && !Array.isArray(after)
+
+    if (bothArrays) {
+        const changes: JsonChange[] = []
+        for (let i = 0; i < Math.max(before.length, after.length); i++) {
+            changes.push(...diffJson(before[i], after[i], `${path}[${i}]`))
+        }
+        return changes
+    }
+
+    if (bothObjects) {
+        const changes: JsonChange[] = []
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+        for (const key of keys) {
+            changes.push(...diffJson(before[key], after[key], path ? `${path}.${key}` : key))
+        }
+        return changes
+    }
+
+    if (JSON.stringify(before) === JSON.stringify(after)) return []
+    return [{ path: path || "(root)", before, after }]
+}
+
+async function writeRecording(file: string, recording: Recording): Promise<void> {
+    await writeFile(file, JSON.stringify(recording, null, 2), { mode: 0o600 })
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null
+}
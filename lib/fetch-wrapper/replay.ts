@@ -0,0 +1,101 @@
+/**
+ * Offline replay of recorded requests.
+ *
+ * Feeds recorded request bodies through processRequest with fresh plugin state
+ * and no network access, and compares the outcome with what was recorded:
+ * the detected format and, when an interceptor is given, the rewritten body.
+ * Useful for regression tests of detectFormat and replaceToolOutput against
+ * real payloads from every provider.
+ */
+
+import type { PluginConfig } from "../config"
+import type { PluginState } from "../state"
+import type { RequestInterceptor } from "./index"
+import type { Recording, JsonChange } from "./recorder"
+import { processRequest } from "./index"
+import { diffJson, loadRecordings } from "./recorder"
+import { enqueuePendingRequest } from "./attribution"
+import { defaultConfig } from "../config"
+import { createPluginState } from "../state"
+import { Logger } from "../logger"
+
+export interface ReplayOptions {
+    /** Interceptor to run; by default requests pass through unchanged */
+    interceptor?: RequestInterceptor
+    config?: PluginConfig
+    /** Creates the state for each replayed request; a fresh state by default */
+    createState?: () => PluginState
+    logger?: Logger
+}
+
+export interface ReplayResult {
+    file?: string
+    recordedFormat: string | null
+    format: string | null
+    /** Whether the request was detected as the same format as when it was recorded */
+    formatMatches: boolean
+    modified: boolean
+    /** The body produced by the replay */
+    body: any
+    /** Changes the replay made to the recorded request */
+    diff: JsonChange[]
+    /** Differences between the replayed body and the recorded `after` body (or the request, without an interceptor) */
+    differsFromRecording: JsonChange[]
+}
+
+const passThrough: RequestInterceptor = (body) => ({ body, modified: false })
+
+/**
+ * Replays one recording.
+ * The recording's session is queued the way chat.params queues it live, so the
+ * request is attributed to it.
+ */
+export async function replayRecording(recording: Recording, options: ReplayOptions = {}, file?: string): Promise<ReplayResult> {
+    const state = options.createState?.() ?? createPluginState()
+    if (recording.sessionId) {
+        enqueuePendingRequest(state, recording.sessionId, recording.model)
+        if (recording.model) {
+            state.model.set(recording.sessionId, recording.model)
+        }
+    }
+
+    const request = structuredClone(recording.request)
+    const result = await processRequest(
+        structuredClone(recording.request),
+        {
+            state,
+            logger: options.logger ?? new Logger(false),
+            client: null,
+            config: options.config ?? defaultConfig,
+            sessionId: null
+        },
+        recording.url,
+        options.interceptor ?? passThrough
+    )
+
+    const format = result.format?.name ?? null
+    // Without an interceptor, a replay should leave the recorded request as it was
+    const expected = options.interceptor && recording.modified ? recording.after : recording.request
+
+    return {
+        file,
+        recordedFormat: recording.format,
+        format,
+        formatMatches: format === recording.format,
+        modified: result.modified,
+        body: result.body,
+        diff: result.modified ? diffJson(request, result.body) : [],
+        differsFromRecording: diffJson(expected, result.body)
+    }
+}
+
+/**
+ * Replays every recording under a directory, in the order they were recorded.
+ */
+export async function replayCorpus(directory: string, options: ReplayOptions = {}): Promise<ReplayResult[]> {
+    const results: ReplayResult[] = []
+    for (const { file, recording } of await loadRecordings(directory)) {
+        results.push(await replayRecording(recording, options, file))
+    }
+    return results
+}
@@ -0,0 +1,122 @@
+/**
+ * Normalization of fetch call signatures.
+ *
+ * SDKs call fetch in many shapes: a URL string, URL object or Request as input,
+ * and a string, byte array, Blob or ReadableStream as body, either in init or on
+ * the Request itself. readFetchRequest reads any of them into a URL, headers and
+ * body text, and rebuilds an equivalent call with a new body. Headers, signal,
+ * duplex and every other option are carried over; content-length is dropped so
+ * fetch recomputes it for the new body.
+ *
+ * Bodies are only read when they may be JSON (no content type, or a JSON one).
+ * Form data, search params and other bodies pass through untouched.
+ */
+
+export interface FetchRequest {
+    url: string
+    headers: Headers
+    /** The body decoded as UTF-8, or undefined if there is none or it isn't readable text */
+    bodyText?: string
+    /** Arguments that send the request as it was */
+    original(): [any, any]
+    /** Arguments that send the request with a new body */
+    withBody(body: string): [any, any]
+}
+
+/**
+ * Reads a fetch call's URL, headers and body without changing what it sends.
+ */
+export async function readFetchRequest(input: any, init?: any): Promise<FetchRequest> {
+    const request = input instanceof Request ? input : undefined
+    const url = typeof input === 'string' ? input
+        : input instanceof URL ? input.href
+        : request ? request.url
+        : String(input)
+    const headers = new Headers(init?.headers ?? request?.headers)
+
+    const { text, bytes, consumed } = await readBody(request, init, headers)
+
+    return {
+        url,
+        headers,
+        bodyText: text,
+        // A consumed stream can't be sent again, so its buffered bytes are sent instead
+        original: () => consumed && bytes ? rebuildFetchArgs(url, request, init, bytes) : [input, init],
+        withBody: (body) => rebuildFetchArgs(url, request, init, body)
+    }
+}
+
+async function readBody(
+    request: Request | undefined,
+    init: any,
+    headers: Headers
+): Promise<{ text?: string, bytes?: Uint8Array, consumed: boolean }> {
+    const contentType = headers.get('content-type')
+    const mayBeJson = !contentType || contentType.includes('json')
+    const hasInitBody = init !== undefined && init !== null && 'body' in init && init.body != null
+    const body = hasInitBody ? init.body : undefined
+
+    if (typeof body === 'string') {
+        return { text: body, consumed: false }
+    }
+    if (!mayBeJson) {
+        return { consumed: false }
+    }
+
+    let bytes: Uint8Array | undefined
+    let consumed = false
+    if (body instanceof Uint8Array) {
+        bytes = body
+    } else if (body instanceof ArrayBuffer) {
+        bytes = new Uint8Array(body)
+    } else if (ArrayBuffer.isView(body)) {
+        bytes = new Uint8Array(body.buffer, body.byteOffset, body.byteLength)
+    } else if (body instanceof Blob) {
+        bytes = new Uint8Array(await body.arrayBuffer())
+    } else if (body instanceof ReadableStream) {
+        bytes = new Uint8Array(await new Response(body).arrayBuffer())
+        consumed = true
+    } else if (!hasInitBody && request?.body) {
+        // Read a copy: the Request itself is sent as is unless the body changes
+        bytes = new Uint8Array(await request.clone().arrayBuffer())
+    }
+
+    return { text: bytes && decodeUtf8(bytes), bytes, consumed }
+}
+
+function decodeUtf8(bytes: Uint8Array): string | undefined {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Builds fetch arguments equivalent to the original call, with a new body.
+ * Options in init override those of the Request, as they do in fetch itself.
+ */
+function rebuildFetchArgs(url: string, request: Request | undefined, init: any, body: string | Uint8Array): [string, any] {
+    const headers = new Headers(init?.headers ?? request?.headers)
+    headers.delete('content-length')
+
+    const rebuilt: any = {
+        method: request?.method,
+        signal: request?.signal,
+        redirect: request?.redirect,
+        credentials: request?.credentials,
+        cache: request?.cache,
+        integrity: request?.integrity || undefined,
+        keepalive: request?.keepalive,
+        referrerPolicy: request?.referrerPolicy || undefined,
+        duplex: (request as any)?.duplex,
+        // Anything else in init (including runtime-specific options) is kept as is
+        ...init,
+        headers,
+        body
+    }
+    for (const key of Object.keys(rebuilt)) {
+        if (rebuilt[key] === undefined) delete rebuilt[key]
+    }
+    return [url, rebuilt]
+}
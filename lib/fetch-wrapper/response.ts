@@ -0,0 +1,446 @@
+/**
+ * Response-side interception.
+ *
+ * The response body is teed: the caller gets one branch untouched, the other is
+ * read in the background and summarized into token usage and tool calls. This
+ * works for plain JSON responses and for streams in every supported format:
+ * - SSE (text/event-stream): OpenAI Chat, OpenAI Responses, Anthropic, Gemini
+ * - AWS event stream (application/vnd.amazon.eventstream): Bedrock ConverseStream
+ *
+ * Observing never changes what the caller receives, and never delays it.
+ */
+
+import type { FetchHandlerContext, FormatDescriptor } from "./types"
+
+/**
+ * Token usage reported by the provider, normalized across formats.
+ */
+export interface ResponseUsage {
+    /** All prompt tokens, including cached ones */
+    inputTokens?: number
+    outputTokens?: number
+    /** Prompt tokens served from the prompt cache */
+    cacheReadTokens?: number
+    /** Prompt tokens written to the prompt cache */
+    cacheWriteTokens?: number
+}
+
+export interface ResponseToolCall {
+    /** Tool call ID (Gemini only provides one in some API versions) */
+    id?: string
+    name: string
+    /** Parsed arguments, or the raw string if it isn't valid JSON */
+    arguments: any
+}
+
+export interface ResponseSummary {
+    format: FormatDescriptor
+    url: string
+    status: number
+    streamed: boolean
+    usage?: ResponseUsage
+    toolCalls: ResponseToolCall[]
+    /** Our own estimate of the request's prompt tokens, for comparison with usage.inputTokens */
+    estimatedInputTokens?: number
+}
+
+/**
+ * Callback type for response interception.
+ * Called once the whole response has been received; it cannot change the response.
+ */
+export type ResponseInterceptor = (
+    summary: ResponseSummary,
+    ctx: FetchHandlerContext
+) => Promise<void> | void
+
+/**
+ * Collects usage and tool calls from stream events.
+ */
+interface StreamAccumulator {
+    onEvent(data: any, eventType?: string): void
+    result(): { usage?: ResponseUsage, toolCalls: ResponseToolCall[] }
+}
+
+/**
+ * Tees a response and summarizes the observer branch in the background.
+ * @returns The response to hand to the caller
+ */
+export function observeResponse(
+    response: Response,
+    format: FormatDescriptor,
+    url: string,
+    estimatedInputTokens: number | undefined,
+    ctx: FetchHandlerContext,
+    onSummary: (summary: ResponseSummary) => Promise<void>
+): Response {
+    if (!response.ok || !response.body) return response
+
+    const contentType = response.headers.get('content-type') ?? ''
+    const kind = contentType.includes('text/event-stream') ? 'sse'
+        : contentType.includes('application/vnd.amazon.eventstream') ? 'eventstream'
+        : contentType.includes('json') ? 'json'
+        : null
+    if (!kind) return response
+
+    const [forCaller, forObserver] = response.body.tee()
+    const observed = new Response(forCaller, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+    })
+    Object.defineProperty(observed, 'url', { value: response.url })
+
+    const summarize = async () => {
+        let result: { usage?: ResponseUsage, toolCalls: ResponseToolCall[] }
+        if (kind === 'json') {
+            result = summarizeJsonResponse(format, JSON.parse(await new Response(forObserver).text()))
+        } else {
+            const accumulator = createStreamAccumulator(format)
+            if (kind === 'sse') {
+                await readSseEvents(forObserver, (data, eventType) => accumulator.onEvent(data, eventType))
+            } else {
+                await readEventStream(forObserver, (data, eventType) => accumulator.onEvent(data, eventType))
+            }
+            result = accumulator.result()
+        }
+
+        await onSummary({
+            format,
+            url,
+            status: response.status,
+            streamed: kind !== 'json',
+            usage: result.usage,
+            toolCalls: result.toolCalls,
+            estimatedInputTokens
+        })
+    }
+
+    summarize().catch((error: any) => {
+        ctx.logger.error("response", "Failed to observe response", {
+            url,
+            error: error?.message ?? String(error)
+        })
+    })
+
+    return observed
+}
+
+/**
+ * Extracts usage and tool calls from a complete (non-streamed) response body.
+ */
+export function summarizeJsonResponse(
+    format: FormatDescriptor,
+    json: any
+): { usage?: ResponseUsage, toolCalls: ResponseToolCall[] } {
+    const toolCalls: ResponseToolCall[] = []
+
+    switch (format.name) {
+        case 'openai-chat':
+            for (const call of json.choices?.[0]?.message?.tool_calls ?? []) {
+                toolCalls.push({ id: call.id, name: call.function?.name, arguments: parseArguments(call.function?.arguments) })
+            }
+            return { usage: normalizeOpenAIUsage(json.usage), toolCalls }
+
+        case 'openai-responses':
+            for (const item of json.output ?? []) {
+                if (item.type === 'function_call') {
+                    toolCalls.push({ id: item.call_id, name: item.name, arguments: parseArguments(item.arguments) })
+                }
+            }
+            return { usage: normalizeOpenAIUsage(json.usage), toolCalls }
+
+        case 'anthropic':
+            for (const block of json.content ?? []) {
+                if (block.type === 'tool_use') {
+                    toolCalls.push({ id: block.id, name: block.name, arguments: block.input })
+                }
+            }
+            return { usage: normalizeAnthropicUsage(json.usage), toolCalls }
+
+        case 'gemini':
+            for (const part of json.candidates?.[0]?.content?.parts ?? []) {
+                if (part.functionCall) {
+                    toolCalls.push({ id: part.functionCall.id, name: part.functionCall.name, arguments: part.functionCall.args })
+                }
+            }
+            return { usage: normalizeGeminiUsage(json.usageMetadata), toolCalls }
+
+        case 'bedrock':
+            for (const block of json.output?.message?.content ?? []) {
+                if (block.toolUse) {
+                    toolCalls.push({ id: block.toolUse.toolUseId, name: block.toolUse.name, arguments: block.toolUse.input })
+                }
+            }
+            return { usage: normalizeBedrockUsage(json.usage), toolCalls }
+    }
+
+    return { toolCalls }
+}
+
+/**
+ * Creates an accumulator for the stream events of a format.
+ */
+export function createStreamAccumulator(format: FormatDescriptor): StreamAccumulator {
+    let usage: ResponseUsage | undefined
+    const toolCalls: ResponseToolCall[] = []
+    // Streamed tool calls arrive in fragments, keyed by their index in the response
+    const partial = new Map<number, { id?: string, name: string, json: string }>()
+
+    const finishPartial = () => Array.from(partial.values()).map(call => ({
+        id: call.id,
+        name: call.name,
+        arguments: parseArguments(call.json)
+    }))
+
+    switch (format.name) {
+        case 'openai-chat':
+            return {
+                onEvent(data) {
+                    for (const delta of data.choices?.[0]?.delta?.tool_calls ?? []) {
+                        const call = partial.get(delta.index) ?? { name: '', json: '' }
+                        if (delta.id) call.id = delta.id
+                        if (delta.function?.name) call.name += delta.function.name
+                        if (delta.function?.arguments) call.json += delta.function.arguments
+                        partial.set(delta.index, call)
+                    }
+                    if (data.usage) usage = normalizeOpenAIUsage(data.usage)
+                },
+                result: () => ({ usage, toolCalls: finishPartial() })
+            }
+
+        case 'openai-responses': {
+            let completed: { usage?: ResponseUsage, toolCalls: ResponseToolCall[] } | undefined
+            return {
+                onEvent(data, eventType) {
+                    const type = eventType ?? data.type
+                    if (type === 'response.completed' && data.response) {
+                        completed = summarizeJsonResponse(format, data.response)
+                    }
+                },
+                result: () => completed ?? { toolCalls }
+            }
+        }
+
+        case 'anthropic':
+            return {
+                onEvent(data) {
+                    if (data.type === 'message_start') {
+                        usage = normalizeAnthropicUsage(data.message?.usage)
+                    } else if (data.type === 'content_block_start' && data.content_block?.type === 'tool_use') {
+                        partial.set(data.index, { id: data.content_block.id, name: data.content_block.name, json: '' })
+                    } else if (data.type === 'content_block_delta' && data.delta?.type === 'input_json_delta') {
+                        const call = partial.get(data.index)
+                        if (call) call.json += data.delta.partial_json
+                    } else if (data.type === 'message_delta' && data.usage) {
+                        usage = { ...usage, outputTokens: data.usage.output_tokens }
+                    }
+                },
+                result: () => ({ usage, toolCalls: finishPartial() })
+            }
+
+        case 'gemini':
+            return {
+                onEvent(data) {
+                    const chunk = summarizeJsonResponse(format, data)
+                    toolCalls.push(...chunk.toolCalls)
+                    // Every chunk carries the running totals; the last one wins
+                    if (chunk.usage) usage = chunk.usage
+                },
+                result: () => ({ usage, toolCalls })
+            }
+
+        case 'bedrock':
+            return {
+                onEvent(data, eventType) {
+                    if (eventType === 'contentBlockStart' && data.start?.toolUse) {
+                        partial.set(data.contentBlockIndex, {
+                            id: data.start.toolUse.toolUseId,
+                            name: data.start.toolUse.name,
+                            json: ''
+                        })
+                    } else if (eventType === 'contentBlockDelta' && data.delta?.toolUse) {
+                        const call = partial.get(data.contentBlockIndex)
+                        if (call) call.json += data.delta.toolUse.input ?? ''
+                    } else if (eventType === 'metadata' && data.usage) {
+                        usage = normalizeBedrockUsage(data.usage)
+                    }
+                },
+                result: () => ({ usage, toolCalls: finishPartial() })
+            }
+    }
+
+    return {
+        onEvent() {},
+        result: () => ({ toolCalls })
+    }
+}
+
+/**
+ * Reads a text/event-stream and calls onEvent with each event's parsed JSON data.
+ */
+export async function readSseEvents(
+    stream: ReadableStream<Uint8Array>,
+    onEvent: (data: any, eventType?: string) => void
+): Promise<void> {
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    const dispatch = (raw: string) => {
+        let eventType: string | undefined
+        const dataLines: string[] = []
+        for (const line of raw.split(/\r?\n/)) {
+            if (line.startsWith('event:')) eventType = line.slice(6).trim()
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+        }
+
+        const data = dataLines.join('\n')
+        if (!data || data === '[DONE]') return
+        try {
+            onEvent(JSON.parse(data), eventType)
+        } catch {
+            // Non-JSON events (pings, comments) carry nothing we record
+        }
+    }
+
+    const reader = stream.getReader()
+    while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+
+        let boundary = buffer.search(/\r?\n\r?\n/)
+        while (boundary !== -1) {
+            dispatch(buffer.slice(0, boundary))
+            buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '')
+            boundary = buffer.search(/\r?\n\r?\n/)
+        }
+    }
+    buffer += decoder.decode()
+    if (buffer.trim()) dispatch(buffer)
+}
+
+/**
+ * Reads an AWS event stream (binary frames) and calls onEvent with each
+ * event's parsed JSON payload and its :event-type header.
+ *
+ * Frame layout: total length (4) | headers length (4) | prelude CRC (4) | headers | payload | message CRC (4)
+ */
+export async function readEventStream(
+    stream: ReadableStream<Uint8Array>,
+    onEvent: (data: any, eventType?: string) => void
+): Promise<void> {
+    const decoder = new TextDecoder()
+    let buffer = new Uint8Array(0)
+
+    const reader = stream.getReader()
+    while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        const merged = new Uint8Array(buffer.length + value.length)
+        merged.set(buffer)
+        merged.set(value, buffer.length)
+        buffer = merged
+
+        while (buffer.length >= 12) {
+            const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+            const totalLength = view.getUint32(0)
+            const headersLength = view.getUint32(4)
+            if (buffer.length < totalLength) break
+
+            const headers = parseEventStreamHeaders(buffer.subarray(12, 12 + headersLength), decoder)
+            const payload = buffer.subarray(12 + headersLength, totalLength - 4)
+            buffer = buffer.slice(totalLength)
+
+            if (headers[':message-type'] !== 'event' || payload.length === 0) continue
+            try {
+                onEvent(JSON.parse(decoder.decode(payload)), headers[':event-type'])
+            } catch {
+                // Skip payloads that aren't JSON
+            }
+        }
+    }
+}
+
+/**
+ * Parses event stream headers, keeping only string values (type 7).
+ */
+function parseEventStreamHeaders(bytes: Uint8Array, decoder: InstanceType<typeof TextDecoder>): Record<string, string> {
+    const headers: Record<string, string> = {}
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    // Value sizes by header type; variable-length types (6, 7) are prefixed with a 2-byte length
+    const fixedSizes: Record<number, number> = { 0: 0, 1: 0, 2: 1, 3: 2, 4: 4, 5: 8, 8: 8, 9: 16 }
+
+    let offset = 0
+    while (offset < bytes.length) {
+        const nameLength = bytes[offset]
+        const name = decoder.decode(bytes.subarray(offset + 1, offset + 1 + nameLength))
+        offset += 1 + nameLength
+
+        const type = bytes[offset]
+        offset += 1
+
+        if (type === 6 || type === 7) {
+            const valueLength = view.getUint16(offset)
+            if (type === 7) {
+                headers[name] = decoder.decode(bytes.subarray(offset + 2, offset + 2 + valueLength))
+            }
+            offset += 2 + valueLength
+        } else {
+            offset += fixedSizes[type] ?? 0
+        }
+    }
+    return headers
+}
+
+function parseArguments(raw: any): any {
+    if (typeof raw !== 'string') return raw
+    try {
+        return JSON.parse(raw)
+    } catch {
+        return raw
+    }
+}
+
+function normalizeOpenAIUsage(usage: any): ResponseUsage | undefined {
+    if (!usage) return undefined
+    return {
+        inputTokens: usage.prompt_tokens ?? usage.input_tokens,
+        outputTokens: usage.completion_tokens ?? usage.output_tokens,
+        cacheReadTokens: usage.prompt_tokens_details?.cached_tokens ?? usage.input_tokens_details?.cached_tokens
+    }
+}
+
+function normalizeAnthropicUsage(usage: any): ResponseUsage | undefined {
+    if (!usage) return undefined
+    // Anthropic's input_tokens excludes tokens read from or written to the cache
+    const cacheReadTokens = usage.cache_read_input_tokens ?? 0
+    const cacheWriteTokens = usage.cache_creation_input_tokens ?? 0
+    return {
+        inputTokens: (usage.input_tokens ?? 0) + cacheReadTokens + cacheWriteTokens,
+        outputTokens: usage.output_tokens,
+        cacheReadTokens,
+        cacheWriteTokens
+    }
+}
+
+function normalizeGeminiUsage(usage: any): ResponseUsage | undefined {
+    if (!usage) return undefined
+    return {
+        inputTokens: usage.promptTokenCount,
+        outputTokens: usage.candidatesTokenCount,
+        cacheReadTokens: usage.cachedContentTokenCount
+    }
+}
+
+function normalizeBedrockUsage(usage: any): ResponseUsage | undefined {
+    if (!usage) return undefined
+    const cacheReadTokens = usage.cacheReadInputTokens ?? 0
+    const cacheWriteTokens = usage.cacheWriteInputTokens ?? 0
+    return {
+        inputTokens: (usage.inputTokens ?? 0) + cacheReadTokens + cacheWriteTokens,
+        outputTokens: usage.outputTokens,
+        cacheReadTokens,
+        cacheWriteTokens
+    }
+}
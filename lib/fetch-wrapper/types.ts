@@ -2,9 +2,11 @@
  * Type definitions for the fetch wrapper and format handlers.
  */
 
-import type { PluginState } from "../state"
+import type { PluginState, ToolStatus } from "../state"
 import type { Logger } from "../logger"
 import type { PluginConfig } from "../config"
+import type { RequestAttribution } from "./attribution"
+import type { SubagentPolicy } from "../core/subagents"
 
 /**
  * Represents a tool output found in the request body.
@@ -16,6 +18,14 @@ export interface ToolOutput {
     toolName?: string
     /** The tool output content */
     content?: string
+    /** The call's input parameters (from the tool metadata index) */
+    parameters?: any
+    /** The call's status (from the tool metadata index) */
+    status?: ToolStatus
+    /** When the call started, in milliseconds since the epoch */
+    startedAt?: number
+    /** When the call completed or failed, in milliseconds since the epoch */
+    completedAt?: number
 }
 
 /**
@@ -29,8 +39,8 @@ export interface FormatDescriptor {
     detect(body: any): boolean
     /** Gets the main data array (messages/contents/input) from the body */
     getDataArray(body: any): any[] | undefined
-    /** Extracts all tool outputs from the data array */
-    extractToolOutputs(data: any[], state: PluginState): ToolOutput[]
+    /** Extracts all tool outputs from the data array of a request owned by sessionId */
+    extractToolOutputs(data: any[], state: PluginState, sessionId?: string | null): ToolOutput[]
     /** Checks if the data contains any tool outputs */
     hasToolOutputs(data: any[]): boolean
     /** Gets metadata for logging */
@@ -45,6 +55,12 @@ export interface FetchHandlerContext {
     logger: Logger
     client: any
     config: PluginConfig
+    /** Session that made the current request, or null if it could not be attributed */
+    sessionId: string | null
+    /** How the current request was attributed to its session */
+    attribution?: RequestAttribution
+    /** Policy for the current request if it belongs to a subagent session, otherwise undefined */
+    subagentPolicy?: SubagentPolicy
 }
 
 /**
@@ -61,4 +77,8 @@ export interface FetchHandlerResult {
     toolOutputs?: ToolOutput[]
     /** The data array from the body */
     dataArray?: any[]
+    /** Context the request was processed with, including its session */
+    ctx?: FetchHandlerContext
+    /** Estimated prompt tokens of the request as sent */
+    estimatedTokens?: number
 }
@@ -4,6 +4,12 @@
 
 import type { PluginState } from "./state"
 import type { Logger } from "./logger"
+import type { PluginConfig } from "./config"
+import { compressSubagentResult } from "./core/subagents"
+import { buildGeminiToolCallMapping } from "./fetch-wrapper/gemini-correlation"
+import { enqueuePendingRequest, recordToolCallSession } from "./fetch-wrapper/attribution"
+import type { SessionStore } from "./session-store"
+import { indexSessionMessages, indexToolPart, updateToolMetadata } from "./tool-index"
 
 /**
  * Checks if a session is a subagent session (spawned by Task tool).
@@ -17,22 +23,94 @@ export async function isSubagentSession(client: any, sessionID: string): Promise
     }
 }
 
+/** Messages requested per page of a session's history */
+const MESSAGE_PAGE_SIZE = 200
+
+/**
+ * Fetches a session's complete message history, oldest first.
+ *
+ * The history is read backwards a page at a time, each page holding the messages
+ * before the oldest one seen so far. A server that does not know the `before`
+ * cursor returns the same latest page again; the history is then read with one
+ * call without a limit, which such servers answer with every message.
+ */
+export async function fetchSessionMessages(client: any, sessionID: string): Promise<any[]> {
+    const fetchPage = async (query?: { limit: number, before?: string }): Promise<any[]> => {
+        const response = await client.session.messages({ path: { id: sessionID }, ...(query && { query }) })
+        const messages = response.data || response
+        return Array.isArray(messages) ? messages : []
+    }
+
+    const pages: any[][] = []
+    const seen = new Set<string>()
+    let before: string | undefined
+    for (;;) {
+        const page = await fetchPage({ limit: MESSAGE_PAGE_SIZE, ...(before !== undefined && { before }) })
+        if (before !== undefined && page.some(m => seen.has(m.info?.id))) {
+            // The page overlaps what was read already: the server ignored the cursor
+            return fetchPage()
+        }
+        pages.unshift(page)
+        for (const message of page) seen.add(message.info?.id)
+
+        const oldest = page[0]?.info?.id
+        if (page.length < MESSAGE_PAGE_SIZE || !oldest) break
+        before = oldest
+    }
+    return pages.flat()
+}
+
 /**
  * Creates an event handler for session events.
- * Override the onIdle callback to run custom logic when the session goes idle.
+ * Tool parts of message updates feed the tool metadata index as they change.
+ * Override the onIdle callback to run custom logic when the session goes idle,
+ * onCommand to handle slash commands run in a session, and onDeleted to release
+ * what is kept for a session once it is deleted.
  */
 export function createEventHandler(
     client: any,
     state: PluginState,
     logger: Logger,
-    onIdle?: (sessionId: string) => Promise<void> | void
+    onIdle?: (sessionId: string) => Promise<void> | void,
+    onCommand?: (name: string, sessionId: string, args: string) => Promise<void> | void,
+    onDeleted?: (sessionId: string) => Promise<void> | void
 ) {
     return async ({ event }: { event: any }) => {
+        if (event.type === "session.deleted" && onDeleted) {
+            const sessionId = event.properties?.info?.id
+            if (!sessionId) return
+            try {
+                await onDeleted(sessionId)
+            } catch (err: any) {
+                logger.error("hooks", "Error in onDeleted callback", { error: err.message })
+            }
+            return
+        }
+
+        if (event.type === "message.part.updated") {
+            const part = event.properties?.part
+            if (part?.sessionID && !state.internalSessions.has(part.sessionID)) {
+                indexToolPart(state, part.sessionID, part)
+            }
+            return
+        }
+
+        if (event.type === "command.executed" && onCommand) {
+            const { name, sessionID, arguments: args } = event.properties
+            if (state.internalSessions.has(sessionID)) return
+            try {
+                await onCommand(name, sessionID, args ?? "")
+            } catch (err: any) {
+                logger.error("hooks", "Error in onCommand callback", { command: name, error: err.message })
+            }
+            return
+        }
+
         if (event.type === "session.status" && event.properties.status.type === "idle") {
             const sessionId = event.properties.sessionID
             
-            // Skip subagent sessions
-            if (await isSubagentSession(client, sessionId)) {
+            // Skip subagent sessions and the plugin's own sessions
+            if (state.internalSessions.has(sessionId) || await isSubagentSession(client, sessionId)) {
                 logger.debug("hooks", "Skipping idle event for subagent session", {
                     sessionId: sessionId.substring(0, 8)
                 })
@@ -54,12 +132,15 @@ export function createEventHandler(
 
 /**
  * Creates the chat.params hook for session tracking and Google tool call mapping.
- * This hook is called before each chat completion request.
+ * This hook is called before each chat completion request. A session seen for the
+ * first time is restored from the session store, if given, which also drops the
+ * sessions that have not been used for a while from memory.
  */
 export function createChatParamsHandler(
     client: any,
     state: PluginState,
-    logger: Logger
+    logger: Logger,
+    store?: SessionStore
 ) {
     return async (input: any, _output: any) => {
         const sessionId = input.sessionID
@@ -76,15 +157,17 @@ export function createChatParamsHandler(
                 from: state.lastSeenSessionId.substring(0, 8),
                 to: sessionId.substring(0, 8)
             })
-            // Clear Gemini mappings on session change
-            state.googleToolCallMapping.clear()
         }
 
         state.lastSeenSessionId = sessionId
 
+        // Keep the session in memory, dropping sessions that went unused
+        await store?.touch(state, sessionId)
+
         // Check if this is a subagent session
         if (!state.checkedSessions.has(sessionId)) {
             state.checkedSessions.add(sessionId)
+            await store?.restore(state, sessionId)
             const isSubagent = await isSubagentSession(client, sessionId)
             if (isSubagent) {
                 state.subagentSessions.add(sessionId)
@@ -94,60 +177,42 @@ export function createChatParamsHandler(
             }
         }
 
-        // Cache model info for the session
+        // Queue this call so the fetch it triggers can be attributed to the session
+        const model = providerID && modelID ? { providerID, modelID } : undefined
+        enqueuePendingRequest(state, sessionId, model, input.agent)
+        if (input.agent) {
+            state.sessionAgents.set(sessionId, input.agent)
+        }
+
+        // Cache model info for the session, with the limits OpenCode knows for it
         if (providerID && modelID) {
+            const limit = input.model?.limit
             state.model.set(sessionId, {
                 providerID: providerID,
-                modelID: modelID
+                modelID: modelID,
+                ...(limit?.context > 0 && { limit: { context: limit.context, output: limit.output ?? 0 } })
             })
             logger.debug("chat.params", "Cached model info", {
                 sessionId: sessionId.substring(0, 8),
                 provider: providerID,
-                model: modelID
+                model: modelID,
+                contextLimit: limit?.context
             })
         }
 
-        // Build position-based mapping for Gemini (which loses tool call IDs in native format)
+        // Build tool call ID correlation for Gemini (which loses tool call IDs in native format)
         if (providerID === 'google' || providerID === 'google-vertex') {
             try {
-                const messagesResponse = await client.session.messages({
-                    path: { id: sessionId },
-                    query: { limit: 100 }
+                const messages = await fetchSessionMessages(client, sessionId)
+                indexSessionMessages(state, sessionId, messages)
+                const mapping = buildGeminiToolCallMapping(messages)
+
+                state.googleToolCallMapping.set(sessionId, mapping)
+                logger.debug("chat.params", "Built Google tool call mapping", {
+                    sessionId: sessionId.substring(0, 8),
+                    toolCount: mapping.byPosition.size,
+                    hashedOutputs: mapping.byContentHash.size
                 })
-                const messages = messagesResponse.data || messagesResponse
-
-                if (Array.isArray(messages)) {
-                    const toolCallsByName = new Map<string, string[]>()
-
-                    for (const msg of messages) {
-                        if (msg.parts) {
-                            for (const part of msg.parts) {
-                                if (part.type === 'tool' && part.callID && part.tool) {
-                                    const toolName = part.tool.toLowerCase()
-                                    const callId = part.callID.toLowerCase()
-
-                                    if (!toolCallsByName.has(toolName)) {
-                                        toolCallsByName.set(toolName, [])
-                                    }
-                                    toolCallsByName.get(toolName)!.push(callId)
-                                }
-                            }
-                        }
-                    }
-
-                    const positionMapping = new Map<string, string>()
-                    for (const [toolName, callIds] of toolCallsByName) {
-                        callIds.forEach((callId, index) => {
-                            positionMapping.set(`${toolName}:${index}`, callId)
-                        })
-                    }
-
-                    state.googleToolCallMapping.set(sessionId, positionMapping)
-                    logger.debug("chat.params", "Built Google tool call mapping", {
-                        sessionId: sessionId.substring(0, 8),
-                        toolCount: positionMapping.size
-                    })
-                }
             } catch (error: any) {
                 logger.error("chat.params", "Failed to build Google tool call mapping", {
                     error: error.message
@@ -156,3 +221,91 @@ export function createChatParamsHandler(
         }
     }
 }
+
+/** Handles a plugin command run in a session */
+export type CommandHandler = (sessionId: string, args: string) => Promise<void>
+
+/**
+ * Message of the error that stops OpenCode from prompting the model with a command
+ * the plugin has already handled.
+ */
+export const COMMAND_HANDLED_MESSAGE = "Handled by the context pruning plugin; the model is not prompted"
+
+/**
+ * Creates the command.execute.before hook that runs the plugin's own commands.
+ * OpenCode would otherwise send the command's template to the model, costing a
+ * turn over the whole context and leaving a user/assistant pair in the history,
+ * so once the command is handled the prompt is aborted by throwing.
+ */
+export function createCommandExecuteBeforeHandler(
+    state: PluginState,
+    logger: Logger,
+    commands: Record<string, CommandHandler>
+) {
+    return async (input: { command: string, sessionID: string, arguments: string }, _output: { parts: any[] }) => {
+        const handler = commands[input.command]
+        if (!handler || state.internalSessions.has(input.sessionID)) return
+
+        try {
+            await handler(input.sessionID, input.arguments ?? "")
+        } catch (err: any) {
+            logger.error("hooks", "Error in command handler", { command: input.command, error: err.message })
+        }
+        throw new Error(COMMAND_HANDLED_MESSAGE)
+    }
+}
+
+/**
+ * Creates the tool.execute.before hook that indexes each tool call's name, arguments
+ * and owning session. Deduplication needs parameters at request time, before the
+ * session's history is loaded, and requests are attributed to sessions by call ID.
+ */
+export function createToolExecuteBeforeHandler(
+    state: PluginState,
+    logger: Logger
+) {
+    return async (input: { tool: string, sessionID: string, callID: string }, output: { args: any }) => {
+        if (!input.callID || !input.tool) return
+
+        updateToolMetadata(state, input.callID, {
+            tool: input.tool,
+            parameters: output.args,
+            status: "running",
+            startedAt: Date.now()
+        })
+        recordToolCallSession(state, input.callID, input.sessionID)
+        logger.debug("hooks", "Indexed tool call", {
+            tool: input.tool,
+            callId: input.callID.substring(0, 8)
+        })
+    }
+}
+
+/**
+ * Creates the tool.execute.after hook that marks each tool call completed in the
+ * index and compresses subagent results before they are returned to the parent session.
+ */
+export function createToolExecuteAfterHandler(
+    state: PluginState,
+    config: PluginConfig,
+    logger: Logger
+) {
+    return async (input: { tool: string, sessionID: string, callID: string }, output: { title: string, output: string, metadata: any }) => {
+        if (input.callID && input.tool) {
+            updateToolMetadata(state, input.callID, { tool: input.tool, status: "completed", completedAt: Date.now() })
+        }
+
+        if (input.tool !== "task" || !config.subagents.compressResult) return
+        if (typeof output.output !== "string") return
+
+        const compressed = compressSubagentResult(output.output, config.subagents.maxResultTokens)
+        if (compressed === null) return
+
+        logger.info("hooks", "Compressed subagent result", {
+            callId: input.callID.substring(0, 8),
+            originalLength: output.output.length,
+            compressedLength: compressed.length
+        })
+        output.output = compressed
+    }
+}
@@ -1,88 +1,214 @@
 /**
- * Simple logger for plugin debugging.
+ * Structured logger for plugin debugging.
+ *
+ * Entries are written as JSON lines to ~/.config/opencode/logs/<plugin>/daily/<date>.jsonl,
+ * one file per day. A file that grows past maxFileBytes is rotated to <date>.<n>.jsonl,
+ * and files older than maxAgeDays are deleted. Query them with jq, e.g.
+ *   jq 'select(.requestId == "r-1a2b3c")' ~/.config/opencode/logs/dcp/daily/*.jsonl
+ *
+ * Loggers created with child() add fixed fields (such as a request's correlation ID)
+ * to every entry. Full request payloads are only written in payload mode, through
+ * the redactPayload option when set.
  */
 
-import { writeFile, mkdir } from "fs/promises"
+import { appendFile, mkdir, readdir, rename, stat, unlink } from "fs/promises"
 import { join } from "path"
-import { existsSync } from "fs"
 import { homedir } from "os"
 
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 }
+
+export interface LoggerOptions {
+    /** Entries below this level are dropped */
+    level: LogLevel
+    /** Size above which the current file is rotated */
+    maxFileBytes: number
+    /** Log files older than this are deleted */
+    maxAgeDays: number
+    /** Write full request payloads (see payload()) */
+    payloads: boolean
+    /** Applied to every payload before it is written, to keep secrets out of the logs */
+    redactPayload?: <T>(value: T) => T
+}
+
+export const DEFAULT_LOGGER_OPTIONS: LoggerOptions = {
+    level: "info",
+    maxFileBytes: 10 * 1024 * 1024,
+    maxAgeDays: 7,
+    payloads: false,
+}
+
+/**
+ * State shared between a logger and its children: one file, one write queue.
+ */
+interface LogSink {
+    dir: string
+    options: LoggerOptions
+    /** Writes are chained so entries stay in order and rotation never races an append */
+    queue: Promise<void>
+    currentFile?: string
+    currentSize: number
+    cleanedUp: boolean
+}
+
 export class Logger {
-    private logDir: string
     public enabled: boolean
+    private sink: LogSink
+    private fields: Record<string, any>
 
-    constructor(enabled: boolean, pluginName: string = "myplugin") {
+    constructor(enabled: boolean, pluginName: string = "myplugin", options: Partial<LoggerOptions> = {}) {
         this.enabled = enabled
-        const opencodeConfigDir = join(homedir(), ".config", "opencode")
-        this.logDir = join(opencodeConfigDir, "logs", pluginName)
+        this.fields = {}
+        this.sink = {
+            dir: join(homedir(), ".config", "opencode", "logs", pluginName, "daily"),
+            options: { ...DEFAULT_LOGGER_OPTIONS, ...options },
+            queue: Promise.resolve(),
+            currentSize: 0,
+            cleanedUp: false,
+        }
     }
 
-    private async ensureLogDir() {
-        if (!existsSync(this.logDir)) {
-            await mkdir(this.logDir, { recursive: true })
-        }
+    /**
+     * Returns a logger writing to the same file that adds fields to every entry.
+     */
+    child(fields: Record<string, any>): Logger {
+        const child = Object.create(Logger.prototype) as Logger
+        child.enabled = this.enabled
+        child.sink = this.sink
+        child.fields = { ...this.fields, ...fields }
+        return child
+    }
+
+    /** Whether full payloads are written */
+    get payloads(): boolean {
+        return this.enabled && this.sink.options.payloads
     }
 
-    private formatData(data?: any): string {
-        if (!data) return ""
+    info(component: string, message: string, data?: any) {
+        return this.write("info", component, message, data)
+    }
 
-        const parts: string[] = []
-        for (const [key, value] of Object.entries(data)) {
-            if (value === undefined || value === null) continue
+    debug(component: string, message: string, data?: any) {
+        return this.write("debug", component, message, data)
+    }
 
-            if (Array.isArray(value)) {
-                if (value.length === 0) continue
-                parts.push(`${key}=[${value.slice(0, 3).join(",")}${value.length > 3 ? `...+${value.length - 3}` : ""}]`)
-            }
-            else if (typeof value === 'object') {
-                const str = JSON.stringify(value)
-                if (str.length < 50) {
-                    parts.push(`${key}=${str}`)
-                }
-            }
-            else {
-                parts.push(`${key}=${value}`)
-            }
-        }
-        return parts.join(" ")
+    warn(component: string, message: string, data?: any) {
+        return this.write("warn", component, message, data)
     }
 
-    private async write(level: string, component: string, message: string, data?: any) {
-        if (!this.enabled) return
+    error(component: string, message: string, data?: any) {
+        return this.write("error", component, message, data)
+    }
 
-        try {
-            await this.ensureLogDir()
+    /**
+     * Writes a full payload (e.g. a request body) in payload mode, regardless of level.
+     * Entries have level "payload".
+     */
+    payload(component: string, message: string, data: any) {
+        if (!this.payloads) return Promise.resolve()
+        const redact = this.sink.options.redactPayload
+        return this.enqueue("payload", component, message, redact ? redact(data) : data)
+    }
 
-            const timestamp = new Date().toISOString()
-            const dataStr = this.formatData(data)
+    private write(level: LogLevel, component: string, message: string, data?: any) {
+        if (!this.enabled) return Promise.resolve()
+        if (LEVEL_ORDER[level] < LEVEL_ORDER[this.sink.options.level]) return Promise.resolve()
+        return this.enqueue(level, component, message, data)
+    }
 
-            const logLine = `${timestamp} ${level.padEnd(5)} ${component}: ${message}${dataStr ? " | " + dataStr : ""}\n`
+    private enqueue(level: string, component: string, message: string, data?: any): Promise<void> {
+        const entry = {
+            time: new Date().toISOString(),
+            level,
+            component,
+            message,
+            ...this.fields,
+            ...(data !== undefined ? { data } : {})
+        }
+        const line = safeStringify(entry) + "\n"
+
+        this.sink.queue = this.sink.queue
+            .then(() => this.append(line))
+            .catch(() => {
+                // Logging must never break the plugin
+            })
+        return this.sink.queue
+    }
 
-            const dailyLogDir = join(this.logDir, "daily")
-            if (!existsSync(dailyLogDir)) {
-                await mkdir(dailyLogDir, { recursive: true })
+    private async append(line: string): Promise<void> {
+        const sink = this.sink
+        const file = join(sink.dir, `${new Date().toISOString().slice(0, 10)}.jsonl`)
+
+        if (sink.currentFile !== file) {
+            // Payloads hold whole conversations: keep them private to the user
+            await mkdir(sink.dir, { recursive: true, mode: 0o700 })
+            sink.currentFile = file
+            sink.currentSize = await stat(file).then(s => s.size, () => 0)
+            if (!sink.cleanedUp) {
+                sink.cleanedUp = true
+                await this.deleteExpired()
             }
+        }
 
-            const logFile = join(dailyLogDir, `${new Date().toISOString().split('T')[0]}.log`)
-            await writeFile(logFile, logLine, { flag: "a" })
-        } catch (error) {
-            // Silently ignore logging errors
+        const bytes = Buffer.byteLength(line)
+        if (sink.currentSize > 0 && sink.currentSize + bytes > sink.options.maxFileBytes) {
+            await this.rotate(file)
         }
-    }
 
-    info(component: string, message: string, data?: any) {
-        return this.write("INFO", component, message, data)
+        await appendFile(file, line, { mode: 0o600 })
+        sink.currentSize += bytes
     }
 
-    debug(component: string, message: string, data?: any) {
-        return this.write("DEBUG", component, message, data)
+    /**
+     * Renames the current file to the next free <date>.<n>.jsonl.
+     */
+    private async rotate(file: string): Promise<void> {
+        const base = file.slice(0, -".jsonl".length)
+        let n = 1
+        while (await stat(`${base}.${n}.jsonl`).then(() => true, () => false)) n++
+
+        await rename(file, `${base}.${n}.jsonl`)
+        this.sink.currentSize = 0
+        await this.deleteExpired()
     }
 
-    warn(component: string, message: string, data?: any) {
-        return this.write("WARN", component, message, data)
+    private async deleteExpired(): Promise<void> {
+        const cutoff = Date.now() - this.sink.options.maxAgeDays * 24 * 60 * 60 * 1000
+        for (const name of await readdir(this.sink.dir)) {
+            if (!name.endsWith(".jsonl") && !name.endsWith(".log")) continue
+            const path = join(this.sink.dir, name)
+            const { mtimeMs } = await stat(path)
+            if (mtimeMs < cutoff) {
+                await unlink(path)
+            }
+        }
     }
+}
 
-    error(component: string, message: string, data?: any) {
-        return this.write("ERROR", component, message, data)
-    }
+/**
+ * Creates a short correlation ID for one intercepted request.
+ */
+export function createRequestId(): string {
+    return `r-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * JSON.stringify that handles Maps, Sets, Errors, bigints and circular references.
+ */
+function safeStringify(value: any): string {
+    // Objects on the path from the root to the current value; shared references elsewhere are fine
+    const ancestors: any[] = []
+    return JSON.stringify(value, function (this: any, _key, v) {
+        if (typeof v === "bigint") return v.toString()
+        if (v instanceof Map) return Object.fromEntries(v)
+        if (v instanceof Set) return Array.from(v)
+        if (v instanceof Error) return { name: v.name, message: v.message, stack: v.stack }
+        if (typeof v === "object" && v !== null) {
+            while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop()
+            if (ancestors.includes(v)) return "[Circular]"
+            ancestors.push(v)
+        }
+        return v
+    })
 }
@@ -0,0 +1,416 @@
+/**
+ * Persistence of session-scoped plugin state across OpenCode restarts.
+ *
+ * Without it, a restart forgets which tool outputs were pruned: content that was
+ * replaced before comes back in full, which undoes the savings and invalidates the
+ * provider's prompt cache. Each session is kept in its own file under
+ * ~/.config/opencode/<plugin>/sessions/<sessionId>.json, restored the first time
+ * the session is seen and saved after each of its responses.
+ *
+ * Several OpenCode instances may share the store. Writes take a per-session lock
+ * file, merge with what is on disk (pruning only ever grows) and replace the file
+ * with an atomic rename, so a reader never sees a partial file. Sessions not
+ * updated for maxAgeDays, and the oldest beyond maxSessions, are evicted.
+ *
+ * The same limits bound the sessions held in memory: sessions unused for maxAgeDays,
+ * and the least recently used beyond maxSessions, are saved and dropped from the
+ * plugin state, and restored from disk if they are used again. Deleted sessions are
+ * dropped from memory and disk.
+ */
+
+import { mkdir, open, readdir, readFile, rename, stat, unlink, writeFile } from "fs/promises"
+import { join } from "path"
+import { homedir } from "os"
+import { forgetSession, type PluginState } from "./state"
+import type { Logger } from "./logger"
+import type { SessionStats, TrackedToolOutput } from "./core/janitor"
+import type { BudgetRewrite } from "./core/budget"
+import type { Pin } from "./core/protection"
+import { createCacheState } from "./core/cache"
+import { createBudgetState } from "./core/budget"
+import { createSessionStats } from "./core/janitor"
+import { recordToolCallSession } from "./fetch-wrapper/attribution"
+
+export const SESSION_STORE_VERSION = 1
+
+export interface PersistenceConfig {
+    enabled: boolean
+    /** Defaults to ~/.config/opencode/<plugin>/sessions */
+    directory: string
+    /** Sessions not updated for this long are deleted */
+    maxAgeDays: number
+    /** Only the most recently updated sessions are kept */
+    maxSessions: number
+}
+
+/**
+ * The persisted form of one session's state. Maps are stored as entry arrays.
+ */
+export interface PersistedSession {
+    version: number
+    sessionId: string
+    updatedAt: string
+    prunedIds: string[]
+    stats?: SessionStats
+    cache?: { appliedIds: string[], lastRequestAt: number | null, lastMessageCount: number }
+    trackedOutputs: [string, TrackedToolOutput][]
+    googleToolCallMapping?: { byPosition: [string, string][], byContentHash: [string, string[]][] }
+    budgetRewrites: [string, BudgetRewrite][]
+    /** Summaries replacing the session's pruned outputs */
+    summaries: [string, string][]
+    /** Pruned outputs that were reads of files modified since (absent in older files) */
+    staleFileReads?: string[]
+    /** Outputs pinned in the session (absent in older files) */
+    pins?: [string, Pin][]
+}
+
+/** A lock older than this is assumed to belong to a crashed process */
+const LOCK_STALE_MS = 10000
+const LOCK_RETRY_MS = 25
+const LOCK_RETRIES = 200
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+export function getSessionStoreDirectory(config: PersistenceConfig, pluginName: string): string {
+    if (!config.directory) {
+        return join(homedir(), ".config", "opencode", pluginName, "sessions")
+    }
+    return config.directory.startsWith("~/")
+        ? join(homedir(), config.directory.slice(2))
+        : config.directory
+}
+
+/**
+ * Extracts the persisted form of a session from the plugin state.
+ */
+export function serializeSession(state: PluginState, sessionId: string): PersistedSession {
+    const prunedIds = state.prunedIds.get(sessionId) ?? []
+    const cache = state.cache.get(sessionId)
+    const mapping = state.googleToolCallMapping.get(sessionId)
+
+    return {
+        version: SESSION_STORE_VERSION,
+        sessionId,
+        updatedAt: new Date().toISOString(),
+        prunedIds: [...prunedIds],
+        stats: state.stats.get(sessionId),
+        cache: cache && {
+            appliedIds: [...cache.appliedIds],
+            lastRequestAt: cache.lastRequestAt,
+            lastMessageCount: cache.lastMessageCount
+        },
+        trackedOutputs: Array.from(state.trackedOutputs.get(sessionId) ?? []),
+        googleToolCallMapping: mapping && {
+            byPosition: Array.from(mapping.byPosition),
+            byContentHash: Array.from(mapping.byContentHash)
+        },
+        budgetRewrites: Array.from(state.budget.get(sessionId)?.rewrites ?? []),
+        summaries: prunedIds
+            .filter(id => state.summaries.has(id))
+            .map(id => [id, state.summaries.get(id)!]),
+        staleFileReads: prunedIds.filter(id => state.staleFileReads.has(id)),
+        pins: Array.from(state.pins).filter(([, pin]) => pin.sessionId === sessionId)
+    }
+}
+
+/**
+ * Merges a persisted session into the plugin state. What is already in memory wins,
+ * except that pruned and applied IDs are combined.
+ */
+export function restoreSession(state: PluginState, data: PersistedSession): void {
+    const sessionId = data.sessionId
+
+    const prunedIds = new Set([...(state.prunedIds.get(sessionId) ?? []), ...data.prunedIds])
+    state.prunedIds.set(sessionId, Array.from(prunedIds))
+
+    if (data.stats && !state.stats.has(sessionId)) {
+        state.stats.set(sessionId, { ...createSessionStats(), ...data.stats })
+    }
+
+    if (data.cache) {
+        const cache = state.cache.get(sessionId) ?? {
+            ...createCacheState(),
+            lastRequestAt: data.cache.lastRequestAt,
+            lastMessageCount: data.cache.lastMessageCount
+        }
+        cache.appliedIds = Array.from(new Set([...cache.appliedIds, ...data.cache.appliedIds]))
+        state.cache.set(sessionId, cache)
+    }
+
+    const tracked = state.trackedOutputs.get(sessionId) ?? new Map<string, TrackedToolOutput>()
+    for (const [id, output] of data.trackedOutputs) {
+        if (!tracked.has(id)) tracked.set(id, output)
+        recordToolCallSession(state, id, sessionId)
+    }
+    state.trackedOutputs.set(sessionId, tracked)
+
+    if (data.googleToolCallMapping && !state.googleToolCallMapping.has(sessionId)) {
+        state.googleToolCallMapping.set(sessionId, {
+            byPosition: new Map(data.googleToolCallMapping.byPosition),
+            byContentHash: new Map(data.googleToolCallMapping.byContentHash)
+        })
+    }
+
+    if (data.budgetRewrites.length > 0) {
+        const budgetState = state.budget.get(sessionId) ?? createBudgetState()
+        for (const [id, rewrite] of data.budgetRewrites) {
+            if (!budgetState.rewrites.has(id)) budgetState.rewrites.set(id, rewrite)
+        }
+        state.budget.set(sessionId, budgetState)
+    }
+
+    for (const [id, summary] of data.summaries) {
+        if (!state.summaries.has(id)) state.summaries.set(id, summary)
+    }
+
+    for (const id of data.staleFileReads ?? []) {
+        state.staleFileReads.add(id)
+    }
+
+    for (const [id, pin] of data.pins ?? []) {
+        if (!state.pins.has(id)) state.pins.set(id, pin)
+    }
+}
+
+/**
+ * Combines a session saved by another instance with this instance's copy.
+ */
+function mergeSessions(ours: PersistedSession, theirs: PersistedSession): PersistedSession {
+    const union = (a: string[], b: string[]) => Array.from(new Set([...b, ...a]))
+    const byId = <T>(a: [string, T][], b: [string, T][]) => Array.from(new Map([...b, ...a]))
+
+    return {
+        ...ours,
+        prunedIds: union(ours.prunedIds, theirs.prunedIds),
+        cache: ours.cache && theirs.cache
+            ? { ...ours.cache, appliedIds: union(ours.cache.appliedIds, theirs.cache.appliedIds) }
+            : ours.cache ?? theirs.cache,
+        stats: ours.stats ?? theirs.stats,
+        trackedOutputs: byId(ours.trackedOutputs, theirs.trackedOutputs),
+        googleToolCallMapping: ours.googleToolCallMapping ?? theirs.googleToolCallMapping,
+        budgetRewrites: byId(ours.budgetRewrites, theirs.budgetRewrites),
+        summaries: byId(ours.summaries, theirs.summaries),
+        staleFileReads: union(ours.staleFileReads ?? [], theirs.staleFileReads ?? []),
+        // Pins can be removed, so this instance's pins replace the saved ones
+        pins: ours.pins ?? theirs.pins
+    }
+}
+
+export class SessionStore {
+    /** Per-session save chains, so saves of one session never overlap */
+    private saves = new Map<string, Promise<void>>()
+    /** Sessions with a save queued that has not started yet */
+    private queued = new Set<string>()
+    private evicted = false
+    /** When each session held in memory was last used, least recently used first */
+    private lastUsed = new Map<string, number>()
+
+    constructor(
+        private directory: string,
+        private config: PersistenceConfig,
+        private logger: Logger
+    ) {}
+
+    /**
+     * Loads a session from disk into the plugin state.
+     * @returns Whether a saved session was found
+     */
+    async restore(state: PluginState, sessionId: string): Promise<boolean> {
+        if (!this.config.enabled || !SESSION_ID_PATTERN.test(sessionId)) return false
+
+        if (!this.evicted) {
+            this.evicted = true
+            await this.evict()
+        }
+
+        const data = await this.read(sessionId)
+        if (!data) return false
+
+        restoreSession(state, data)
+        this.logger.info("session-store", "Restored session state", {
+            sessionId: sessionId.substring(0, 8),
+            prunedIds: data.prunedIds.length,
+            updatedAt: data.updatedAt
+        })
+        return true
+    }
+
+    /**
+     * Saves a session in the background. Saves requested while one is already
+     * waiting to run are coalesced into it.
+     */
+    scheduleSave(state: PluginState, sessionId: string): Promise<void> {
+        if (!this.config.enabled || !SESSION_ID_PATTERN.test(sessionId)) return Promise.resolve()
+        if (this.queued.has(sessionId)) return this.saves.get(sessionId)!
+
+        this.queued.add(sessionId)
+        const previous = this.saves.get(sessionId) ?? Promise.resolve()
+        const next = previous.then(async () => {
+            this.queued.delete(sessionId)
+            try {
+                await this.save(state, sessionId)
+            } catch (error: any) {
+                this.logger.error("session-store", "Failed to save session state", {
+                    sessionId: sessionId.substring(0, 8),
+                    error: error.message
+                })
+            }
+        })
+        this.saves.set(sessionId, next)
+        return next
+    }
+
+    /**
+     * Records that a session is in use, and drops the sessions that fall outside the
+     * store's limits from memory.
+     */
+    async touch(state: PluginState, sessionId: string): Promise<void> {
+        const now = Date.now()
+        this.lastUsed.delete(sessionId)
+        this.lastUsed.set(sessionId, now)
+
+        const cutoff = now - this.config.maxAgeDays * 24 * 60 * 60 * 1000
+        const excess = this.lastUsed.size - this.config.maxSessions
+        const unused = Array.from(this.lastUsed)
+            .filter(([, usedAt], i) => i < excess || usedAt < cutoff)
+            .map(([id]) => id)
+        for (const id of unused) {
+            await this.forget(state, id)
+        }
+    }
+
+    /**
+     * Saves a session and drops it from memory, unless it is used again meanwhile.
+     */
+    async forget(state: PluginState, sessionId: string): Promise<void> {
+        this.lastUsed.delete(sessionId)
+        const saved = this.scheduleSave(state, sessionId)
+        await saved
+        if (this.lastUsed.has(sessionId)) return
+
+        forgetSession(state, sessionId)
+        if (this.saves.get(sessionId) === saved) this.saves.delete(sessionId)
+        this.logger.debug("session-store", "Dropped session from memory", { sessionId: sessionId.substring(0, 8) })
+    }
+
+    /**
+     * Drops a deleted session from memory and deletes its saved state.
+     */
+    async delete(state: PluginState, sessionId: string): Promise<void> {
+        this.lastUsed.delete(sessionId)
+        const saving = this.saves.get(sessionId)
+        await saving
+        forgetSession(state, sessionId)
+        if (this.saves.get(sessionId) === saving) this.saves.delete(sessionId)
+        if (SESSION_ID_PATTERN.test(sessionId)) {
+            await unlink(this.getPath(sessionId)).catch(() => {})
+        }
+    }
+
+    private async save(state: PluginState, sessionId: string): Promise<void> {
+        if (!state.prunedIds.has(sessionId) && !state.trackedOutputs.has(sessionId)) return
+
+        await mkdir(this.directory, { recursive: true, mode: 0o700 })
+        const path = this.getPath(sessionId)
+
+        await this.withLock(path, async () => {
+            let data = serializeSession(state, sessionId)
+            const existing = await this.read(sessionId)
+            if (existing) {
+                data = mergeSessions(data, existing)
+            }
+
+            const temp = `${path}.${process.pid}.${Math.random().toString(36).slice(2, 8)}.tmp`
+            await writeFile(temp, JSON.stringify(data), { mode: 0o600 })
+            await rename(temp, path)
+        })
+    }
+
+    private async read(sessionId: string): Promise<PersistedSession | null> {
+        let text: string
+        try {
+            text = await readFile(this.getPath(sessionId), "utf-8")
+        } catch {
+            return null
+        }
+
+        try {
+            const data = JSON.parse(text)
+            if (data?.version !== SESSION_STORE_VERSION || data.sessionId !== sessionId) return null
+            return data
+        } catch (error: any) {
+            this.logger.warn("session-store", "Ignoring unreadable session file", {
+                sessionId: sessionId.substring(0, 8),
+                error: error.message
+            })
+            return null
+        }
+    }
+
+    /**
+     * Deletes sessions older than maxAgeDays and the oldest beyond maxSessions.
+     */
+    async evict(): Promise<number> {
+        let names: string[]
+        try {
+            names = (await readdir(this.directory)).filter(name => name.endsWith(".json"))
+        } catch {
+            return 0
+        }
+
+        const files = await Promise.all(names.map(async name => {
+            const path = join(this.directory, name)
+            const mtimeMs = await stat(path).then(s => s.mtimeMs, () => 0)
+            return { path, mtimeMs }
+        }))
+        files.sort((a, b) => b.mtimeMs - a.mtimeMs)
+
+        const cutoff = Date.now() - this.config.maxAgeDays * 24 * 60 * 60 * 1000
+        const expired = files.filter((file, i) => file.mtimeMs < cutoff || i >= this.config.maxSessions)
+        for (const file of expired) {
+            await unlink(file.path).catch(() => {})
+        }
+
+        if (expired.length > 0) {
+            this.logger.debug("session-store", "Evicted old sessions", { count: expired.length })
+        }
+        return expired.length
+    }
+
+    private getPath(sessionId: string): string {
+        return join(this.directory, `${sessionId}.json`)
+    }
+
+    /**
+     * Runs fn while holding an exclusive lock file next to path. Locks left behind
+     * by a crashed process are taken over once they are stale.
+     */
+    private async withLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+        const lock = `${path}.lock`
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const handle = await open(lock, "wx")
+                await handle.close()
+                break
+            } catch (error: any) {
+                if (error.code !== "EEXIST") throw error
+
+                const age = Date.now() - await stat(lock).then(s => s.mtimeMs, () => Date.now())
+                if (age > LOCK_STALE_MS) {
+                    await unlink(lock).catch(() => {})
+                    continue
+                }
+                if (attempt >= LOCK_RETRIES) {
+                    throw new Error(`Timed out waiting for ${lock}`)
+                }
+                await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS))
+            }
+        }
+
+        try {
+            return await fn()
+        } finally {
+            await unlink(lock).catch(() => {})
+        }
+    }
+}
@@ -3,22 +3,88 @@
  * Simplified from DCP to only include essential state for request interception.
  */
 
+import type { SessionStats, GCStats, TrackedToolOutput } from "./core/janitor"
+import type { CacheState } from "./core/cache"
+import type { GeminiToolCallMapping } from "./fetch-wrapper/gemini-correlation"
+import type { PendingRequest } from "./fetch-wrapper/attribution"
+import type { ResponseUsage } from "./fetch-wrapper/response"
+import type { RedactionRecord } from "./core/redaction"
+import type { BudgetState } from "./core/budget"
+import type { Pin } from "./core/protection"
+
 export interface ModelInfo {
     providerID: string
     modelID: string
+    /** Token limits reported by OpenCode for the model, when known */
+    limit?: ModelLimit
+}
+
+export interface ModelLimit {
+    context: number
+    output: number
+}
+
+export type ToolStatus = "pending" | "running" | "completed" | "error"
+
+export interface ToolMetadata {
+    tool: string
+    parameters?: any
+    status?: ToolStatus
+    /** When the call started, in milliseconds since the epoch */
+    startedAt?: number
+    /** When the call completed or failed, in milliseconds since the epoch */
+    completedAt?: number
 }
 
 export interface PluginState {
     /** Maps session ID to model info */
     model: Map<string, ModelInfo>
-    /** Maps session ID to tool call position mappings for Google/Gemini */
-    googleToolCallMapping: Map<string, Map<string, string>>
+    /** Maps session ID to tool call ID correlation for Google/Gemini */
+    googleToolCallMapping: Map<string, GeminiToolCallMapping>
     /** Sessions that have been checked for subagent status */
     checkedSessions: Set<string>
     /** Sessions identified as subagent sessions */
     subagentSessions: Set<string>
-    /** Last seen session ID */
+    /** Maps session ID to the agent name last seen in chat.params */
+    sessionAgents: Map<string, string>
+    /** Last session ID seen in chat.params, for logging session switches; never used to attribute requests */
     lastSeenSessionId: string | null
+    /** chat.params calls waiting to be matched to their fetch, oldest first */
+    pendingRequests: PendingRequest[]
+    /** Maps tool call ID (lowercase) to the session that made the call */
+    toolCallSessions: Map<string, string>
+    /** Maps session ID to the tool call IDs pruned in that session */
+    prunedIds: Map<string, string[]>
+    /** Maps session ID to cumulative pruning statistics */
+    stats: Map<string, SessionStats>
+    /** Maps session ID to deduplication savings not yet reported in a notification */
+    gcPending: Map<string, GCStats>
+    /** Maps session ID to the tool outputs seen in its requests, in order of appearance */
+    trackedOutputs: Map<string, Map<string, TrackedToolOutput>>
+    /** Maps session ID to prompt-cache tracking (applied rewrites, last request) */
+    cache: Map<string, CacheState>
+    /** Maps tool call ID (lowercase) to the tool name, input parameters, status and timestamps (see ./tool-index) */
+    toolParameters: Map<string, ToolMetadata>
+    /** Maps session ID to the token usage reported by the provider for its latest response */
+    usage: Map<string, ResponseUsage>
+    /** Maps session ID to the reported minus the estimated input tokens of its latest response */
+    tokenEstimateOffsets: Map<string, number>
+    /** Maps session ID to the tool outputs redacted in its requests, by tool call ID */
+    redactions: Map<string, Map<string, RedactionRecord>>
+    /** Maps session ID to context budget tracking (rewrites, latest measurement) */
+    budget: Map<string, BudgetState>
+    /** Maps session ID to the truncated content of its tool outputs in the latest request, by tool call ID */
+    truncations: Map<string, Map<string, string>>
+    /** Maps a tool output's content hash to its LLM summary */
+    summaryCache: Map<string, string>
+    /** Maps tool call ID (lowercase) to the summary that replaces it when pruned */
+    summaries: Map<string, string>
+    /** Tool call IDs (lowercase) of file reads pruned because the file was modified since */
+    staleFileReads: Set<string>
+    /** Maps tool call ID (lowercase) to its pin: pinned outputs are never modified */
+    pins: Map<string, Pin>
+    /** Sessions the plugin created itself (e.g. for summaries), whose requests pass through untouched */
+    internalSessions: Set<string>
 }
 
 export function createPluginState(): PluginState {
@@ -27,6 +93,61 @@ export function createPluginState(): PluginState {
         googleToolCallMapping: new Map(),
         checkedSessions: new Set(),
         subagentSessions: new Set(),
+        sessionAgents: new Map(),
         lastSeenSessionId: null,
+        pendingRequests: [],
+        toolCallSessions: new Map(),
+        prunedIds: new Map(),
+        stats: new Map(),
+        gcPending: new Map(),
+        trackedOutputs: new Map(),
+        cache: new Map(),
+        toolParameters: new Map(),
+        usage: new Map(),
+        tokenEstimateOffsets: new Map(),
+        redactions: new Map(),
+        budget: new Map(),
+        truncations: new Map(),
+        summaryCache: new Map(),
+        summaries: new Map(),
+        staleFileReads: new Set(),
+        pins: new Map(),
+        internalSessions: new Set(),
+    }
+}
+
+/**
+ * Drops everything held in memory for a session: its entries in the per-session
+ * maps and the entries of its tool calls. The summary cache is keyed by content,
+ * shared between sessions and capped on its own, so it is left as is.
+ */
+export function forgetSession(state: PluginState, sessionId: string): void {
+    const callIds = new Set(state.trackedOutputs.get(sessionId)?.keys())
+    for (const [callId, owner] of state.toolCallSessions) {
+        if (owner === sessionId) callIds.add(callId)
+    }
+    for (const [callId, pin] of state.pins) {
+        if (pin.sessionId === sessionId) callIds.add(callId)
+    }
+    for (const callId of callIds) {
+        state.toolCallSessions.delete(callId)
+        state.toolParameters.delete(callId)
+        state.summaries.delete(callId)
+        state.staleFileReads.delete(callId)
+        state.pins.delete(callId)
+    }
+
+    const perSession: Array<Map<string, unknown> | Set<string>> = [
+        state.model, state.googleToolCallMapping, state.checkedSessions, state.subagentSessions,
+        state.sessionAgents, state.prunedIds, state.stats, state.gcPending, state.trackedOutputs,
+        state.cache, state.usage, state.tokenEstimateOffsets, state.redactions, state.budget,
+        state.truncations
+    ]
+    for (const entries of perSession) {
+        entries.delete(sessionId)
+    }
+    state.pendingRequests = state.pendingRequests.filter(r => r.sessionId !== sessionId)
+    if (state.lastSeenSessionId === sessionId) {
+        state.lastSeenSessionId = null
     }
 }
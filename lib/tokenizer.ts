@@ -0,0 +1,174 @@
+/**
+ * Token estimation utilities.
+ *
+ * Counts are approximate - they are used for savings reports and thresholds,
+ * not for anything that must match the provider's billing exactly. The counting
+ * strategy is picked from the model cached for the session in PluginState.model,
+ * and whole-message estimates include each API format's structural overhead.
+ */
+
+import type { PluginState, ModelInfo } from "./state"
+import type { FormatDescriptor, ToolOutput } from "./fetch-wrapper/types"
+
+export interface TokenizerStrategy {
+    /** Strategy name for logging */
+    name: string
+    /** Average characters per token for plain text */
+    charsPerToken: number
+}
+
+/**
+ * Per-format token overhead that is not visible in the text itself
+ * (role markers, message separators, part wrappers).
+ */
+interface FormatOverhead {
+    perMessage: number
+    perRequest: number
+}
+
+const STRATEGIES = {
+    openai: { name: 'openai-o200k', charsPerToken: 4.0 },
+    openaiLegacy: { name: 'openai-cl100k', charsPerToken: 3.7 },
+    anthropic: { name: 'anthropic', charsPerToken: 3.5 },
+    gemini: { name: 'gemini', charsPerToken: 4.0 },
+    openWeights: { name: 'open-weights', charsPerToken: 3.6 },
+    default: { name: 'default', charsPerToken: 4.0 },
+} satisfies Record<string, TokenizerStrategy>
+
+export const DEFAULT_TOKENIZER: TokenizerStrategy = STRATEGIES.default
+
+const FORMAT_OVERHEAD: Record<string, FormatOverhead> = {
+    'openai-chat': { perMessage: 4, perRequest: 3 },
+    'openai-responses': { perMessage: 4, perRequest: 3 },
+    'anthropic': { perMessage: 4, perRequest: 0 },
+    'gemini': { perMessage: 5, perRequest: 0 },
+    'bedrock': { perMessage: 5, perRequest: 0 },
+}
+
+const DEFAULT_FORMAT_OVERHEAD: FormatOverhead = { perMessage: 4, perRequest: 3 }
+
+/** Flat estimate for an image part, whose base64 payload says nothing about its token cost */
+const IMAGE_TOKENS = 1000
+
+/** CJK characters are roughly one token each regardless of the tokenizer */
+const WIDE_CHAR_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g
+
+/**
+ * Picks a counting strategy for a model.
+ * The model ID is checked first since providers like OpenRouter or Bedrock serve many model families.
+ */
+export function getTokenizerStrategy(model?: ModelInfo): TokenizerStrategy {
+    if (!model) return DEFAULT_TOKENIZER
+
+    const modelID = model.modelID.toLowerCase()
+    const providerID = model.providerID.toLowerCase()
+
+    if (modelID.includes('claude')) return STRATEGIES.anthropic
+    if (modelID.includes('gemini') || modelID.includes('gemma')) return STRATEGIES.gemini
+    if (/gpt-4o|gpt-4\.1|gpt-5|(^|\/)o[134]\b/.test(modelID)) return STRATEGIES.openai
+    if (/gpt-4|gpt-3\.5/.test(modelID)) return STRATEGIES.openaiLegacy
+    if (/llama|mistral|mixtral|qwen|deepseek|glm|kimi/.test(modelID)) return STRATEGIES.openWeights
+
+    if (providerID === 'anthropic') return STRATEGIES.anthropic
+    if (providerID === 'google' || providerID === 'google-vertex') return STRATEGIES.gemini
+    if (providerID === 'openai' || providerID === 'azure') return STRATEGIES.openai
+
+    return DEFAULT_TOKENIZER
+}
+
+/**
+ * Gets the counting strategy for the model cached for a session.
+ */
+export function getSessionTokenizer(state: PluginState, sessionId: string | null): TokenizerStrategy {
+    if (!sessionId) return DEFAULT_TOKENIZER
+    return getTokenizerStrategy(state.model.get(sessionId))
+}
+
+/**
+ * Estimates the number of tokens in a piece of text.
+ */
+export function estimateTokens(text: string | undefined, strategy: TokenizerStrategy = DEFAULT_TOKENIZER): number {
+    if (!text) return 0
+
+    const wideChars = text.match(WIDE_CHAR_PATTERN)?.length ?? 0
+    const narrowChars = text.length - wideChars
+    return Math.ceil(narrowChars / strategy.charsPerToken) + wideChars
+}
+
+/**
+ * Estimates the tokens taken up by a tool output's content.
+ */
+export function estimateToolOutputTokens(output: ToolOutput, strategy: TokenizerStrategy = DEFAULT_TOKENIZER): number {
+    return estimateTokens(output.content, strategy)
+}
+
+/**
+ * Estimates the tokens of a single message (or item/content) of a data array,
+ * including the format's per-message overhead.
+ */
+export function estimateMessageTokens(
+    message: any,
+    format: FormatDescriptor,
+    strategy: TokenizerStrategy = DEFAULT_TOKENIZER
+): number {
+    const overhead = FORMAT_OVERHEAD[format.name] ?? DEFAULT_FORMAT_OVERHEAD
+    return overhead.perMessage + estimateValueTokens(message, strategy)
+}
+
+/**
+ * Estimates the tokens of a whole data array as returned by FormatDescriptor.getDataArray.
+ */
+export function estimateDataArrayTokens(
+    dataArray: any[],
+    format: FormatDescriptor,
+    strategy: TokenizerStrategy = DEFAULT_TOKENIZER
+): number {
+    const overhead = FORMAT_OVERHEAD[format.name] ?? DEFAULT_FORMAT_OVERHEAD
+    let total = overhead.perRequest
+    for (const message of dataArray) {
+        total += estimateMessageTokens(message, format, strategy)
+    }
+    return total
+}
+
+/**
+ * Formats a token count for display, e.g. "850 tokens" or "1.2K tokens".
+ */
+export function formatTokenCount(tokens: number): string {
+    if (tokens >= 1000) {
+        return `${(tokens / 1000).toFixed(1)}K`.replace('.0K', 'K') + ' tokens'
+    }
+    return tokens.toString() + ' tokens'
+}
+
+/**
+ * Sums the tokens of every string inside a message, treating image parts as a flat cost.
+ */
+function estimateValueTokens(value: any, strategy: TokenizerStrategy): number {
+    if (typeof value === 'string') return estimateTokens(value, strategy)
+    if (Array.isArray(value)) {
+        let total = 0
+        for (const item of value) {
+            total += estimateValueTokens(item, strategy)
+        }
+        return total
+    }
+    if (value && typeof value === 'object') {
+        if (isImagePart(value)) return IMAGE_TOKENS
+
+        let total = 0
+        for (const item of Object.values(value)) {
+            total += estimateValueTokens(item, strategy)
+        }
+        return total
+    }
+    return 0
+}
+
+function isImagePart(part: any): boolean {
+    return part.type === 'image' ||
+        part.type === 'image_url' ||
+        part.type === 'input_image' ||
+        part.inlineData !== undefined ||
+        part.image !== undefined
+}
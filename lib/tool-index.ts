@@ -0,0 +1,109 @@
+/**
+ * Tool metadata index.
+ *
+ * Request bodies only keep what their provider format keeps of a tool call: some
+ * carry the tool name next to the output, others only the call ID. The index maps
+ * each call ID (lowercase) to its tool name, input parameters, status and
+ * timestamps. It is updated incrementally from every source that sees tool calls:
+ * the session history (client.session.messages), tool part events, the
+ * tool.execute hooks and the tool calls in responses. Tool outputs extracted from
+ * a request are enriched from it, so interceptors see the same metadata whatever
+ * the format.
+ */
+
+import type { PluginState, ToolMetadata, ToolStatus } from "./state"
+import type { ToolOutput } from "./fetch-wrapper/types"
+import { recordToolCallSession } from "./fetch-wrapper/attribution"
+
+/** A finished call never goes back to pending or running when updates arrive out of order */
+const STATUS_ORDER: Record<ToolStatus, number> = { pending: 0, running: 1, completed: 2, error: 2 }
+
+/**
+ * Merges what one source knows about a tool call into the index.
+ * Only new information is taken: the earliest start time, the first completion
+ * time, non-empty parameters and a status that moves forward.
+ * @returns The updated entry, or undefined if the tool name is still unknown
+ */
+export function updateToolMetadata(
+    state: PluginState,
+    callId: string,
+    update: Partial<ToolMetadata>
+): ToolMetadata | undefined {
+    const id = callId.toLowerCase()
+    const existing = state.toolParameters.get(id)
+    const tool = existing?.tool ?? update.tool?.toLowerCase()
+    if (!tool) return undefined
+
+    const entry: ToolMetadata = { ...existing, tool }
+    if (update.parameters !== undefined && (entry.parameters === undefined || !isEmpty(update.parameters))) {
+        entry.parameters = update.parameters
+    }
+    if (update.status && (!entry.status || STATUS_ORDER[update.status] >= STATUS_ORDER[entry.status])) {
+        entry.status = update.status
+    }
+    if (update.startedAt !== undefined && (entry.startedAt === undefined || update.startedAt < entry.startedAt)) {
+        entry.startedAt = update.startedAt
+    }
+    if (update.completedAt !== undefined && entry.completedAt === undefined) {
+        entry.completedAt = update.completedAt
+    }
+
+    state.toolParameters.set(id, entry)
+    return entry
+}
+
+/**
+ * Indexes a tool part of an OpenCode message, from the session history or a
+ * message.part.updated event, and records the session that made the call.
+ * @returns Whether the part was a tool call
+ */
+export function indexToolPart(state: PluginState, sessionId: string, part: any): boolean {
+    if (part?.type !== 'tool' || !part.callID || !part.tool) return false
+
+    const time = part.state?.time
+    updateToolMetadata(state, part.callID, {
+        tool: part.tool,
+        parameters: part.state?.input,
+        status: part.state?.status in STATUS_ORDER ? part.state.status : undefined,
+        startedAt: typeof time?.start === 'number' ? time.start : undefined,
+        completedAt: typeof time?.end === 'number' ? time.end : undefined
+    })
+    recordToolCallSession(state, part.callID, sessionId)
+    return true
+}
+
+/**
+ * Indexes every tool call in a session's messages.
+ * @returns Number of tool calls indexed
+ */
+export function indexSessionMessages(state: PluginState, sessionId: string, messages: any[]): number {
+    let count = 0
+    for (const msg of messages) {
+        for (const part of msg.parts ?? []) {
+            if (indexToolPart(state, sessionId, part)) count++
+        }
+    }
+    return count
+}
+
+/**
+ * Fills in the tool name, parameters, status and timestamps of extracted tool
+ * outputs from the index. What the request body itself says is kept.
+ */
+export function enrichToolOutputs(state: PluginState, outputs: ToolOutput[]): ToolOutput[] {
+    for (const output of outputs) {
+        const metadata = state.toolParameters.get(output.id.toLowerCase())
+        if (!metadata) continue
+
+        output.toolName ??= metadata.tool
+        output.parameters ??= metadata.parameters
+        output.status ??= metadata.status
+        output.startedAt ??= metadata.startedAt
+        output.completedAt ??= metadata.completedAt
+    }
+    return outputs
+}
+
+function isEmpty(value: any): boolean {
+    return typeof value === 'object' && value !== null && Object.keys(value).length === 0
+}
@@ -0,0 +1,59 @@
+/**
+ * context_pin tool - protects specific tool outputs from any modification.
+ *
+ * Pinned outputs are never pruned, deduplicated, truncated, summarized or
+ * redacted (see ../core/protection). The model pins what it must keep verbatim,
+ * typically because the user referred to it; pinning an output that was already
+ * pruned restores it.
+ */
+
+import { tool } from "@opencode-ai/plugin"
+import type { Janitor } from "../core/janitor"
+import type { PluginConfig } from "../config"
+import type { PluginState } from "../state"
+import { listProtectedOutputs, pinOutputs, unpinOutputs } from "../core/protection"
+import { formatProtectedOutputs } from "../ui/context-report"
+
+const CONTEXT_PIN_DESCRIPTION = `Protect tool outputs from being pruned, truncated or summarized.
+
+Use action "pin" with the call IDs of outputs that must stay in context exactly as they are, such as a spec you were asked to follow or a file the user points you to. Pinning an output that was already pruned brings it back in full.
+Use action "unpin" to release outputs you no longer need verbatim, and "list" to see every protected output and why it is protected.
+Secrets in pinned outputs are still replaced with [REDACTED:<rule>] markers.
+Call IDs are shown by the context_prune tool's list action.`
+
+export function createContextPinTool(janitor: Janitor, state: PluginState, config: PluginConfig, workingDirectory?: string) {
+    return tool({
+        description: CONTEXT_PIN_DESCRIPTION,
+        args: {
+            action: tool.schema.enum(["pin", "unpin", "list"]).describe("Pin or unpin the given call IDs, or list protected outputs"),
+            ids: tool.schema.array(tool.schema.string()).optional().describe("Tool call IDs (required for pin and unpin)"),
+            note: tool.schema.string().optional().describe("Why the outputs are pinned, shown when listing")
+        },
+        async execute(args, toolCtx) {
+            const sessionId = toolCtx.sessionID
+            await janitor.refreshToolMetadata(sessionId)
+
+            if (args.action === "list") {
+                return formatProtectedOutputs(listProtectedOutputs(state, config, sessionId), workingDirectory)
+            }
+
+            if (!args.ids || args.ids.length === 0) {
+                return `No call IDs given. Use the context_prune tool's list action to see call IDs.`
+            }
+
+            // Only calls made in this session can be pinned
+            const known = args.ids.filter(id => state.toolCallSessions.get(id.toLowerCase()) === sessionId)
+            const unknown = args.ids.filter(id => !known.includes(id))
+
+            const changed = args.action === "pin"
+                ? pinOutputs(state, sessionId, known, args.note)
+                : unpinOutputs(state, sessionId, known)
+
+            const lines = [`${args.action === "pin" ? "Pinned" : "Unpinned"} ${changed.length} tool output${changed.length === 1 ? '' : 's'}.`]
+            if (unknown.length > 0) {
+                lines.push(`Not found in this session: ${unknown.join(', ')}`)
+            }
+            return lines.join('\n')
+        }
+    })
+}
@@ -0,0 +1,95 @@
+/**
+ * context_prune tool - lets the model manage its own context.
+ *
+ * The model can list the tool outputs it currently holds and mark call IDs as
+ * no longer needed. Pruned outputs are replaced by the janitor on every later request.
+ */
+
+import { tool } from "@opencode-ai/plugin"
+import type { Janitor, ContextEntry } from "../core/janitor"
+import { formatTokenCount } from "../tokenizer"
+import { extractParameterKey } from "../ui/display-utils"
+import { formatPruningResultForTool, sendUnifiedNotification } from "../ui/notification"
+
+const CONTEXT_PRUNE_DESCRIPTION = `Manage your own context window during long sessions.
+
+Use action "list" to see the tool outputs you currently hold in context, with their call IDs and estimated sizes.
+Use action "prune" with the call IDs of outputs you no longer need (e.g. files you have finished editing, exploratory searches, superseded command output). Their content is replaced with a short placeholder in all later requests, so only prune what you will not need again.
+
+Protected tool outputs cannot be pruned.`
+
+export function createContextPruneTool(janitor: Janitor, workingDirectory?: string) {
+    return tool({
+        description: CONTEXT_PRUNE_DESCRIPTION,
+        args: {
+            action: tool.schema.enum(["list", "prune"]).describe("List tool outputs in context, or prune the given call IDs"),
+            ids: tool.schema.array(tool.schema.string()).optional().describe("Tool call IDs to prune (required for the prune action)")
+        },
+        async execute(args, toolCtx) {
+            const sessionId = toolCtx.sessionID
+            await janitor.refreshToolMetadata(sessionId)
+            const entries = janitor.getContextEntries(sessionId)
+
+            if (args.action === "list") {
+                return formatContextEntries(entries.filter(e => !e.pruned))
+            }
+
+            if (!args.ids || args.ids.length === 0) {
+                return "No call IDs given. Use the list action to see the tool outputs in context."
+            }
+
+            const entriesById = new Map(entries.map(e => [e.id, e]))
+            const prunable: string[] = []
+            const skipped: string[] = []
+            for (const rawId of args.ids) {
+                const entry = entriesById.get(rawId.toLowerCase())
+                if (!entry) {
+                    skipped.push(`${rawId}: not found in context`)
+                } else if (entry.pruned) {
+                    skipped.push(`${rawId}: already pruned`)
+                } else if (entry.protected) {
+                    skipped.push(`${rawId}: protected`)
+                } else {
+                    prunable.push(entry.id)
+                }
+            }
+
+            const result = janitor.prune(sessionId, prunable)
+            if (result.prunedCount > 0) {
+                await sendUnifiedNotification(janitor.getNotificationContext(), sessionId, {
+                    aiPrunedCount: result.prunedCount,
+                    aiTokensSaved: result.tokensSaved,
+                    aiPrunedIds: result.llmPrunedIds,
+                    toolMetadata: result.toolMetadata,
+                    gcPending: null,
+                    sessionStats: result.sessionStats,
+                    summarizedIds: result.summarizedIds
+                }, toolCtx.agent)
+            }
+
+            const lines = [formatPruningResultForTool(result, workingDirectory)]
+            if (skipped.length > 0) {
+                lines.push('', `Skipped (${skipped.length}):`, ...skipped.map(s => `  ${s}`))
+            }
+            return lines.join('\n')
+        }
+    })
+}
+
+function formatContextEntries(entries: ContextEntry[]): string {
+    if (entries.length === 0) {
+        return "No tool outputs in context."
+    }
+
+    const totalTokens = entries.reduce((sum, e) => sum + e.tokens, 0)
+    const lines = [`Tool outputs in context (${entries.length}, ~${formatTokenCount(totalTokens)}):`]
+
+    for (const entry of entries) {
+        const paramKey = entry.metadata ? extractParameterKey(entry.metadata) : ''
+        const label = paramKey ? `${entry.toolName}: ${paramKey}` : (entry.toolName ?? 'unknown tool')
+        const flags = entry.protected ? ' [protected]' : ''
+        lines.push(`  ${entry.id} ${label} (~${formatTokenCount(entry.tokens)})${flags}`)
+    }
+
+    return lines.join('\n')
+}
@@ -0,0 +1,91 @@
+/**
+ * context_retrieve tool - reads back the omitted part of a truncated tool output.
+ *
+ * Truncated outputs carry a handle to their full content in the local output
+ * store (see ../core/truncation). The model passes the handle with a line or byte
+ * range and gets that part of the original.
+ */
+
+import { tool } from "@opencode-ai/plugin"
+import type { OutputStore } from "../core/output-store"
+import type { TruncationConfig } from "../core/truncation"
+import { estimateTokens } from "../tokenizer"
+
+const CONTEXT_RETRIEVE_DESCRIPTION = `Read part of a tool output that was truncated to save context.
+
+Truncated outputs contain a marker like "[... truncated to save context: lines 41-1960 of 2000, bytes 2048-98304 ... handle h_0123456789ab ...]".
+Pass that handle with a line range (1-based, inclusive) or a byte range (0-based, end exclusive) to read the omitted part. Request only what you need: large ranges are cut short.`
+
+export function createContextRetrieveTool(store: OutputStore, config: TruncationConfig) {
+    return tool({
+        description: CONTEXT_RETRIEVE_DESCRIPTION,
+        args: {
+            handle: tool.schema.string().describe("Handle from the truncation marker, e.g. h_0123456789ab"),
+            startLine: tool.schema.number().int().min(1).optional().describe("First line to read (1-based)"),
+            endLine: tool.schema.number().int().min(1).optional().describe("Last line to read (inclusive)"),
+            startByte: tool.schema.number().int().min(0).optional().describe("First byte to read (0-based)"),
+            endByte: tool.schema.number().int().min(0).optional().describe("Byte to stop before")
+        },
+        async execute(args) {
+            const content = store.get(args.handle)
+            if (content === null) {
+                return `Unknown handle "${args.handle}". Handles are only valid for outputs truncated in this or a recent session.`
+            }
+
+            const byLine = args.startLine !== undefined || args.endLine !== undefined
+            const byByte = args.startByte !== undefined || args.endByte !== undefined
+            if (byLine && byByte) {
+                return "Give either a line range or a byte range, not both."
+            }
+
+            return byByte
+                ? readByteRange(content, args.handle, args.startByte ?? 0, args.endByte, config.defaultMaxTokens)
+                : readLineRange(content, args.handle, args.startLine ?? 1, args.endLine, config.defaultMaxTokens)
+        }
+    })
+}
+
+/**
+ * Reads whole lines, stopping early once maxTokens would be exceeded.
+ */
+export function readLineRange(content: string, handle: string, startLine: number, endLine: number | undefined, maxTokens: number): string {
+    const lines = content.endsWith('\n') ? content.slice(0, -1).split('\n') : content.split('\n')
+    const last = Math.min(endLine ?? lines.length, lines.length)
+    if (startLine > last) {
+        return `${handle} has ${lines.length} lines; line ${startLine} is out of range.`
+    }
+
+    const selected: string[] = []
+    let tokens = 0
+    let line = startLine
+    for (; line <= last; line++) {
+        const lineTokens = estimateTokens(lines[line - 1]) + 1
+        if (selected.length > 0 && tokens + lineTokens > maxTokens) break
+        selected.push(lines[line - 1])
+        tokens += lineTokens
+    }
+
+    const shown = `${handle}, lines ${startLine}-${line - 1} of ${lines.length}:`
+    const more = line <= last ? `\n[Range cut short to save context; continue from line ${line}]` : ''
+    return `${shown}\n${selected.join('\n')}${more}`
+}
+
+/**
+ * Reads a byte range, stopping early once maxTokens would be exceeded. A range that
+ * splits a multi-byte character decodes it as a replacement character.
+ */
+export function readByteRange(content: string, handle: string, startByte: number, endByte: number | undefined, maxTokens: number): string {
+    const bytes = Buffer.from(content, 'utf-8')
+    const end = Math.min(endByte ?? bytes.length, bytes.length)
+    if (startByte >= end) {
+        return `${handle} has ${bytes.length} bytes; byte ${startByte} is out of range.`
+    }
+
+    // Estimated tokens are based on characters, so a byte budget of ~4 per token is conservative enough
+    const cutEnd = Math.min(end, startByte + maxTokens * 4)
+    const text = bytes.subarray(startByte, cutEnd).toString('utf-8')
+
+    const shown = `${handle}, bytes ${startByte}-${cutEnd} of ${bytes.length}:`
+    const more = cutEnd < end ? `\n[Range cut short to save context; continue from byte ${cutEnd}]` : ''
+    return `${shown}\n${text}${more}`
+}
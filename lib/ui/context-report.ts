@@ -0,0 +1,210 @@
+/**
+ * Context report - what currently takes up a session's context window.
+ *
+ * Built from the session's OpenCode history with the plugin's rewrites applied:
+ * pruned outputs count as their placeholder or summary, and budget and truncation
+ * rewrites as their rewritten content. The total is the provider's reported input tokens for
+ * the latest request when known, since the history leaves out the system prompt
+ * and tool definitions.
+ */
+
+import type { PluginState, ToolMetadata } from "../state"
+import type { PluginConfig } from "../config"
+import { createSessionStats, getPrunedReplacement, type SessionStats } from "../core/janitor"
+import { getContextLimit } from "../core/budget"
+import { estimateTokens, formatTokenCount, getSessionTokenizer } from "../tokenizer"
+import { listProtectedOutputs, type ProtectedOutput } from "../core/protection"
+import { buildToolsSummary, describeToolCall, formatToolSummaryLines } from "./notification"
+
+/** Number of tool outputs listed as the largest */
+const LARGEST_OUTPUTS = 10
+/** Number of pruned tool outputs listed, most recent first */
+const LISTED_PRUNED_OUTPUTS = 20
+
+export interface ToolUsage {
+    tool: string
+    count: number
+    tokens: number
+}
+
+export interface ContextReportOutput {
+    id: string
+    metadata?: ToolMetadata
+    tokens: number
+}
+
+export interface ContextReport {
+    /** "provider/model", if known */
+    model?: string
+    /** Tokens of the latest request */
+    totalTokens: number
+    /** Whether totalTokens was reported by the provider rather than estimated */
+    reported: boolean
+    contextLimit: number
+    /** Input tokens available after reserving output, if the budget measured a request */
+    budget?: number
+    /** Estimated tokens by role, largest first */
+    roles: { role: string, tokens: number }[]
+    /** Estimated tokens of tool outputs by tool, largest first */
+    tools: ToolUsage[]
+    /** The largest tool outputs still in context */
+    largest: ContextReportOutput[]
+    prunedIds: string[]
+    /** Tool names and parameters of the pruned outputs */
+    toolMetadata: Map<string, ToolMetadata>
+    summarizedCount: number
+    stats: SessionStats
+    /** Outputs that are pinned or otherwise protected from modification */
+    protectedOutputs: ProtectedOutput[]
+}
+
+/**
+ * Measures what the session's context consists of.
+ * @param messages - The session's messages, as returned by client.session.messages
+ */
+export function buildContextReport(
+    state: PluginState,
+    config: PluginConfig,
+    sessionId: string,
+    messages: any[]
+): ContextReport {
+    const tokenizer = getSessionTokenizer(state, sessionId)
+    const prunedIds = state.prunedIds.get(sessionId) ?? []
+    const pruned = new Set(prunedIds)
+    const rewrites = state.budget.get(sessionId)?.rewrites
+    const truncations = state.truncations.get(sessionId)
+
+    const roles = new Map<string, number>()
+    const tools = new Map<string, ToolUsage>()
+    const outputs: ContextReportOutput[] = []
+    const add = (role: string, text: string | undefined) => {
+        roles.set(role, (roles.get(role) ?? 0) + estimateTokens(text, tokenizer))
+    }
+
+    for (const msg of messages) {
+        const role = msg.info?.role ?? 'unknown'
+        for (const part of msg.parts ?? []) {
+            if (part.type === 'text' && !part.ignored) {
+                add(role, part.text)
+            } else if (part.type === 'reasoning') {
+                add(role, part.text)
+            } else if (part.type === 'tool' && part.callID) {
+                const id = part.callID.toLowerCase()
+                add(role, JSON.stringify(part.state?.input ?? {}))
+
+                const output = pruned.has(id)
+                    ? getPrunedReplacement(state, id)
+                    : rewrites?.get(id)?.content ?? truncations?.get(id) ?? part.state?.output ?? part.state?.error
+                const tokens = estimateTokens(output, tokenizer)
+                roles.set('tool', (roles.get('tool') ?? 0) + tokens)
+
+                const metadata = state.toolParameters.get(id)
+                const tool = metadata?.tool ?? part.tool
+                const usage = tools.get(tool) ?? { tool, count: 0, tokens: 0 }
+                usage.count++
+                usage.tokens += tokens
+                tools.set(tool, usage)
+
+                if (!pruned.has(id)) {
+                    outputs.push({ id, metadata, tokens })
+                }
+            }
+        }
+    }
+
+    const estimated = Array.from(roles.values()).reduce((sum, tokens) => sum + tokens, 0)
+    const reportedTokens = state.usage.get(sessionId)?.inputTokens
+    const measurement = state.budget.get(sessionId)?.lastMeasurement
+    const model = state.model.get(sessionId)
+
+    return {
+        model: model && `${model.providerID}/${model.modelID}`,
+        totalTokens: reportedTokens ?? measurement?.after ?? estimated,
+        reported: reportedTokens !== undefined,
+        contextLimit: measurement?.contextLimit ?? getContextLimit(model, config.budget.limits),
+        budget: measurement?.budget,
+        roles: Array.from(roles, ([role, tokens]) => ({ role, tokens })).sort((a, b) => b.tokens - a.tokens),
+        tools: Array.from(tools.values()).sort((a, b) => b.tokens - a.tokens),
+        largest: outputs.sort((a, b) => b.tokens - a.tokens).slice(0, LARGEST_OUTPUTS),
+        prunedIds,
+        toolMetadata: new Map(prunedIds
+            .filter(id => state.toolParameters.has(id))
+            .map(id => [id, state.toolParameters.get(id)!])),
+        summarizedCount: prunedIds.filter(id => state.summaries.has(id)).length,
+        stats: state.stats.get(sessionId) ?? createSessionStats(),
+        protectedOutputs: listProtectedOutputs(state, config, sessionId)
+    }
+}
+
+export function formatContextReport(report: ContextReport, workingDirectory?: string): string {
+    const percent = Math.round(report.totalTokens / report.contextLimit * 100)
+    const remaining = Math.max(0, report.contextLimit - report.totalTokens)
+    const source = report.reported ? 'as reported for the latest request' : 'estimated'
+
+    const lines = [
+        `▣ Context | ~${formatTokenCount(report.totalTokens)} of ${formatTokenCount(report.contextLimit)} (${percent}%), ` +
+            `~${formatTokenCount(remaining)} left` + (report.model ? ` · ${report.model}` : ''),
+        `  (${source}` + (report.budget ? `; input budget ${formatTokenCount(report.budget)} after reserving output)` : ')')
+    ]
+
+    if (report.roles.length > 0) {
+        lines.push('', 'By role (estimated from the session history):')
+        for (const { role, tokens } of report.roles) {
+            lines.push(`  ${role}: ~${formatTokenCount(tokens)}`)
+        }
+    }
+
+    if (report.tools.length > 0) {
+        lines.push('', 'By tool:')
+        for (const usage of report.tools) {
+            lines.push(`  ${usage.tool}: ~${formatTokenCount(usage.tokens)} (${usage.count} output${usage.count === 1 ? '' : 's'})`)
+        }
+    }
+
+    if (report.largest.length > 0) {
+        lines.push('', 'Largest tool outputs:')
+        for (const output of report.largest) {
+            const label = output.metadata ? describeToolCall(output.metadata, workingDirectory) : output.id
+            lines.push(`  ~${formatTokenCount(output.tokens)} ${label}`)
+        }
+    }
+
+    const { stats } = report
+    lines.push('', report.prunedIds.length > 0
+        ? `Pruned so far: ${stats.totalToolsPruned} output${stats.totalToolsPruned === 1 ? '' : 's'} ` +
+            `(~${formatTokenCount(stats.totalTokensSaved)} saved), ` +
+            `${stats.totalGCTools} deduplicated (~${formatTokenCount(stats.totalGCTokens)})` +
+            (report.summarizedCount > 0 ? `, ${report.summarizedCount} summarized` : '')
+        : 'Nothing pruned yet.')
+    if (report.prunedIds.length > 0) {
+        const listed = report.prunedIds.slice(-LISTED_PRUNED_OUTPUTS).reverse()
+        lines.push(...formatToolSummaryLines(buildToolsSummary(listed, report.toolMetadata, workingDirectory)))
+        if (listed.length < report.prunedIds.length) {
+            lines.push(`  ...and ${report.prunedIds.length - listed.length} earlier`)
+        }
+    }
+
+    lines.push('', formatProtectedOutputs(report.protectedOutputs, workingDirectory))
+
+    return lines.join('\n')
+}
+
+/**
+ * Lists protected outputs with the reason each one is protected.
+ */
+export function formatProtectedOutputs(outputs: ProtectedOutput[], workingDirectory?: string): string {
+    if (outputs.length === 0) {
+        return "No protected tool outputs."
+    }
+
+    const lines = [`Protected tool outputs (${outputs.length}):`]
+    for (const output of outputs) {
+        const label = output.metadata ? describeToolCall(output.metadata, workingDirectory) : 'unknown tool'
+        const { source, detail } = output.protection
+        const reason = source === 'pinned' ? (detail ? `pinned: ${detail}` : 'pinned')
+            : source === 'tool' ? 'protected tool'
+            : `protected path ${detail}`
+        lines.push(`  ${output.id} ${label} [${reason}]`)
+    }
+    return lines.join('\n')
+}
@@ -1,5 +1,8 @@
+import { homedir } from "os"
 import type { Logger } from "../logger"
+import type { ToolMetadata } from "../state"
 import type { SessionStats, GCStats, PruningResult } from "../core/janitor"
+import { formatRedactionRecord, type RedactionRecord } from "../core/redaction"
 import { formatTokenCount } from "../tokenizer"
 import { extractParameterKey } from "./display-utils"
 
@@ -20,9 +23,13 @@ export interface NotificationData {
     aiPrunedCount: number
     aiTokensSaved: number
     aiPrunedIds: string[]
-    toolMetadata: Map<string, { tool: string, parameters?: any }>
+    toolMetadata: Map<string, ToolMetadata>
     gcPending: GCStats | null
     sessionStats: SessionStats | null
+    /** Tool outputs redacted since the last notification */
+    redactions?: RedactionRecord[]
+    /** Pruned outputs replaced with an LLM summary instead of the placeholder */
+    summarizedIds?: string[]
 }
 
 export async function sendIgnoredMessage(
@@ -57,8 +64,9 @@ export async function sendUnifiedNotification(
 ): Promise<boolean> {
     const hasAiPruning = data.aiPrunedCount > 0
     const hasGcActivity = data.gcPending && data.gcPending.toolsDeduped > 0
+    const hasRedactions = (data.redactions?.length ?? 0) > 0
 
-    if (!hasAiPruning && !hasGcActivity) {
+    if (!hasAiPruning && !hasGcActivity && !hasRedactions) {
         return false
     }
 
@@ -75,14 +83,20 @@ export async function sendUnifiedNotification(
 }
 
 function buildMinimalMessage(data: NotificationData): string {
-    const { justNowTokens, totalTokens } = calculateStats(data)
+    const { justNowTokens, totalTokens, cacheMissTokens, cacheMissCost } = calculateStats(data)
 
-    return formatStatsHeader(totalTokens, justNowTokens)
+    let message = formatStatsHeader(totalTokens, justNowTokens, cacheMissTokens, cacheMissCost)
+    if (data.redactions?.length) {
+        message += `\n▣ Redacted | ${data.redactions.length} tool output${data.redactions.length > 1 ? 's' : ''}`
+    }
+    return message
 }
 
 function calculateStats(data: NotificationData): {
     justNowTokens: number
     totalTokens: number
+    cacheMissTokens: number
+    cacheMissCost: number
 } {
     const justNowTokens = data.aiTokensSaved + (data.gcPending?.tokensCollected ?? 0)
 
@@ -90,12 +104,17 @@ function calculateStats(data: NotificationData): {
         ? data.sessionStats.totalTokensSaved + data.sessionStats.totalGCTokens
         : justNowTokens
 
-    return { justNowTokens, totalTokens }
+    const cacheMissTokens = data.sessionStats?.totalCacheMissTokens ?? 0
+    const cacheMissCost = data.sessionStats?.totalCacheMissCost ?? 0
+
+    return { justNowTokens, totalTokens, cacheMissTokens, cacheMissCost }
 }
 
 function formatStatsHeader(
     totalTokens: number,
-    justNowTokens: number
+    justNowTokens: number,
+    cacheMissTokens: number,
+    cacheMissCost: number
 ): string {
     const totalTokensStr = `~${formatTokenCount(totalTokens)}`
     const justNowTokensStr = `~${formatTokenCount(justNowTokens)}`
@@ -103,15 +122,27 @@ function formatStatsHeader(
     const maxTokenLen = Math.max(totalTokensStr.length, justNowTokensStr.length)
     const totalTokensPadded = totalTokensStr.padStart(maxTokenLen)
 
-    return [
+    const lines = [
         `▣ DCP | ${totalTokensPadded} saved total`,
-    ].join('\n')
+    ]
+
+    // The net effect weighs the savings against what re-caching cost: cache writes
+    // are dearer than the cache reads they replace (CACHE_PRICING in ../core/cache)
+    if (cacheMissTokens > 0) {
+        const netTokens = Math.round(totalTokens - cacheMissCost)
+        const net = netTokens >= 0
+            ? `~${formatTokenCount(netTokens)} net saved`
+            : `~${formatTokenCount(-netTokens)} net lost`
+        lines.push(`▣ Cache | ~${formatTokenCount(cacheMissTokens)} re-cached by rewrites (cost ~${formatTokenCount(Math.round(cacheMissCost))}), ${net}`)
+    }
+
+    return lines.join('\n')
 }
 
 function buildDetailedMessage(data: NotificationData, workingDirectory?: string): string {
-    const { justNowTokens, totalTokens } = calculateStats(data)
+    const { justNowTokens, totalTokens, cacheMissTokens, cacheMissCost } = calculateStats(data)
 
-    let message = formatStatsHeader(totalTokens, justNowTokens)
+    let message = formatStatsHeader(totalTokens, justNowTokens, cacheMissTokens, cacheMissCost)
 
     if (data.aiPrunedCount > 0) {
         const justNowTokensStr = `~${formatTokenCount(justNowTokens)}`
@@ -123,11 +154,12 @@ function buildDetailedMessage(data: NotificationData, workingDirectory?: string)
 
             if (metadata) {
                 const paramKey = extractParameterKey(metadata)
+                const summarized = data.summarizedIds?.includes(normalizedId) ? ' (summarized)' : ''
                 if (paramKey) {
                     const displayKey = truncate(shortenPath(paramKey, workingDirectory), 60)
-                    message += `\n→ ${metadata.tool}: ${displayKey}`
+                    message += `\n→ ${metadata.tool}: ${displayKey}${summarized}`
                 } else {
-                    message += `\n→ ${metadata.tool}`
+                    message += `\n→ ${metadata.tool}${summarized}`
                 }
             }
         }
@@ -142,6 +174,13 @@ function buildDetailedMessage(data: NotificationData, workingDirectory?: string)
         }
     }
 
+    if (data.redactions?.length) {
+        message += `\n\n▣ Redacted secrets (${data.redactions.length})`
+        for (const record of data.redactions) {
+            message += `\n→ ${formatRedactionRecord(record)}`
+        }
+    }
+
     return message.trim()
 }
 
@@ -164,7 +203,7 @@ export function formatPruningResultForTool(
 
 export function buildToolsSummary(
     prunedIds: string[],
-    toolMetadata: Map<string, { tool: string, parameters?: any }>,
+    toolMetadata: Map<string, ToolMetadata>,
     workingDirectory?: string
 ): Map<string, string[]> {
     const toolsSummary = new Map<string, string[]>()
@@ -191,6 +230,16 @@ export function buildToolsSummary(
     return toolsSummary
 }
 
+/**
+ * Describes a tool call for display, e.g. "read: src/index.ts".
+ */
+export function describeToolCall(metadata: ToolMetadata, workingDirectory?: string): string {
+    const paramKey = extractParameterKey(metadata)
+    return paramKey
+        ? `${metadata.tool}: ${truncate(shortenPath(paramKey, workingDirectory), 80)}`
+        : metadata.tool
+}
+
 export function formatToolSummaryLines(
     toolsSummary: Map<string, string[]>,
     indent: string = '  '
@@ -229,7 +278,7 @@ function shortenPath(input: string, workingDirectory?: string): string {
 }
 
 function shortenSinglePath(path: string, workingDirectory?: string): string {
-    const homeDir = require('os').homedir()
+    const homeDir = homedir()
 
     if (workingDirectory) {
         if (path.startsWith(workingDirectory + '/')) {
@@ -0,0 +1,160 @@
+import { describe, it } from "node:test"
+import { mkdtemp, readdir, rm, unlink } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+import assert from "node:assert/strict"
+import { BudgetManager, DROPPED_OUTPUT_PLACEHOLDER, createBudgetState, getContextLimit, getReservedOutputTokens } from "../lib/core/budget"
+import { OutputStore } from "../lib/core/output-store"
+import { Janitor } from "../lib/core/janitor"
+import { defaultConfig, type PluginConfig } from "../lib/config"
+import { detectFormat } from "../lib/fetch-wrapper"
+import { createPluginState, type PluginState } from "../lib/state"
+import { buildBody, createStubClient, createTestLogger, type ToolCallSpec } from "./helpers"
+
+const SESSION_ID = "ses_budget"
+
+function setup(store?: OutputStore) {
+    const config: PluginConfig = { ...structuredClone(defaultConfig), keepRecentToolOutputs: 1 }
+    config.budget.limits = { "test-model": 10000 }
+    config.budget.reserveOutputTokens = 0
+
+    const state = createPluginState()
+    state.model.set(SESSION_ID, { providerID: "openai", modelID: "test-model" })
+    const logger = createTestLogger()
+    const janitor = new Janitor({ client: createStubClient(), state, logger, config })
+    return { config, state, manager: new BudgetManager({ state, logger, config, janitor, store }) }
+}
+
+/** Outputs of about 3000 tokens each, numbered so they never deduplicate */
+function largeCalls(count: number, name = "read"): ToolCallSpec[] {
+    return Array.from({ length: count }, (_, i) => ({
+        id: `call_${i}`,
+        name,
+        output: Array.from({ length: 400 }, (_, line) => `output ${i} line ${line} ${"x".repeat(20)}`).join("\n")
+    }))
+}
+
+function enforce(manager: BudgetManager, state: PluginState, body: any) {
+    const format = detectFormat(body)!
+    const outputs = format.extractToolOutputs(format.getDataArray(body)!, state, SESSION_ID)
+    const rewritten = manager.enforce(SESSION_ID, body, format, outputs)
+    return { rewritten, outputs: format.extractToolOutputs(format.getDataArray(body)!, state, SESSION_ID) }
+}
+
+describe("getContextLimit", () => {
+    it("matches known model families", () => {
+        assert.equal(getContextLimit({ providerID: "anthropic", modelID: "claude-sonnet-4-5" }), 200000)
+        assert.equal(getContextLimit({ providerID: "google", modelID: "gemini-2.5-pro" }), 1048576)
+        assert.equal(getContextLimit({ providerID: "openai", modelID: "gpt-4o-mini" }), 128000)
+    })
+
+    it("uses the limit OpenCode reports for the model over the table", () => {
+        const limit = { context: 1000000, output: 64000 }
+        assert.equal(getContextLimit({ providerID: "anthropic", modelID: "claude-sonnet-4-5", limit }), 1000000)
+        assert.equal(getContextLimit({ providerID: "anthropic", modelID: "claude-sonnet-4-5", limit }, { "claude": 150000 }), 150000)
+        assert.equal(getContextLimit({ providerID: "openai", modelID: "gpt-4.5-preview" }), 128000)
+        assert.equal(getReservedOutputTokens({}, 16000, { providerID: "openai", modelID: "gpt-4", limit: { context: 8192, output: 4096 } }), 4096)
+        assert.equal(getReservedOutputTokens({ max_tokens: 32000 }, 16000, { providerID: "anthropic", modelID: "claude", limit }), 32000)
+    })
+
+    it("prefers the longest matching override", () => {
+        const limits = { "gpt-4o": 50000, "openrouter/openai/gpt-4o": 60000 }
+        assert.equal(getContextLimit({ providerID: "openrouter", modelID: "openai/gpt-4o" }, limits), 60000)
+        assert.equal(getContextLimit({ providerID: "openai", modelID: "gpt-4o" }, limits), 50000)
+    })
+
+    it("falls back to a default for unknown models", () => {
+        assert.equal(getContextLimit({ providerID: "local", modelID: "my-model" }), 128000)
+        assert.equal(getContextLimit(undefined), 128000)
+    })
+})
+
+describe("BudgetManager", () => {
+    it("leaves requests under the first threshold alone", () => {
+        const { state, manager } = setup()
+        const body = buildBody("openai-chat", largeCalls(1))
+        const before = structuredClone(body)
+
+        assert.equal(enforce(manager, state, body).rewritten, 0)
+        assert.deepEqual(body, before)
+        assert.ok(state.budget.get(SESSION_ID)?.lastMeasurement)
+    })
+
+    it("escalates until the request is back under the threshold, sparing the latest output", () => {
+        const { state, manager } = setup()
+        const calls = largeCalls(6)
+        const body = buildBody("openai-chat", calls)
+
+        const { rewritten, outputs } = enforce(manager, state, body)
+        const measurement = state.budget.get(SESSION_ID)!.lastMeasurement!
+
+        assert.ok(rewritten > 0)
+        assert.ok(measurement.before > measurement.budget)
+        assert.ok(measurement.after <= measurement.budget * defaultConfig.budget.thresholds.drop)
+        assert.equal(outputs[outputs.length - 1].content, calls[calls.length - 1].output)
+        assert.ok(outputs.some(o => o.content?.includes("[... truncated to save context")))
+    })
+
+    it("drops outputs when truncating and summarizing are not enough", () => {
+        const { state, manager } = setup()
+        // Too many outputs for even their summaries to fit
+        const calls = Array.from({ length: 250 }, (_, i) => ({ id: `call_${i}`, name: "read", output: `output ${i} ${"x".repeat(1200)}` }))
+        const body = buildBody("openai-chat", calls)
+
+        const { outputs } = enforce(manager, state, body)
+        assert.ok(outputs.some(o => o.content === DROPPED_OUTPUT_PLACEHOLDER))
+    })
+
+    it("re-applies its rewrites to later requests", () => {
+        const { state, manager } = setup()
+        const calls = largeCalls(6)
+        const first = enforce(manager, state, buildBody("openai-chat", calls)).outputs
+
+        const next = buildBody("openai-chat", [...calls, { id: "call_new", name: "read", output: "small" }])
+        const second = enforce(manager, state, next).outputs
+
+        assert.deepEqual(second.slice(0, first.length - 1).map(o => o.content), first.slice(0, -1).map(o => o.content))
+    })
+
+    it("stores truncated outputs again when re-applying rewrites restored after their files expired", async () => {
+        const directory = await mkdtemp(join(tmpdir(), "dcp-outputs-"))
+        try {
+            const calls = largeCalls(6)
+            const first = setup(new OutputStore(directory, 7, createTestLogger()))
+            const handles = enforce(first.manager, first.state, buildBody("openai-chat", calls)).outputs
+                .map(o => o.content?.match(/handle (h_[0-9a-f]{12})/)?.[1])
+                .filter((handle): handle is string => handle !== undefined)
+            assert.ok(handles.length > 0)
+
+            // The session is restored in a later process, after its stored outputs expired
+            for (const name of await readdir(directory)) {
+                await unlink(join(directory, name))
+            }
+            const store = new OutputStore(directory, 7, createTestLogger())
+            const restored = setup(store)
+            restored.state.budget.set(SESSION_ID, { ...createBudgetState(), rewrites: new Map(first.state.budget.get(SESSION_ID)!.rewrites) })
+            enforce(restored.manager, restored.state, buildBody("openai-chat", calls))
+
+            for (const handle of handles) {
+                assert.ok(calls.some(c => c.output === store.get(handle)), handle)
+            }
+        } finally {
+            await rm(directory, { recursive: true, force: true })
+        }
+    })
+
+    it("never rewrites protected tools", () => {
+        const { state, manager } = setup()
+        const calls = largeCalls(6, "task")
+        for (const call of calls) {
+            state.toolParameters.set(call.id, { tool: call.name })
+        }
+        const body = buildBody("openai-chat", calls)
+
+        assert.equal(enforce(manager, state, body).rewritten, 0)
+        assert.deepEqual(
+            detectFormat(body)!.extractToolOutputs(body.messages, state, SESSION_ID).map(o => o.content),
+            calls.map(c => c.output)
+        )
+    })
+})
@@ -0,0 +1,133 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { createCacheState, getCachedPrefixLength, planRewrite, type CacheConfig, type CacheState } from "../lib/core/cache"
+import { createSessionStats } from "../lib/core/janitor"
+import { detectFormat, replaceToolOutput } from "../lib/fetch-wrapper"
+import { sendUnifiedNotification } from "../lib/ui/notification"
+import { DEFAULT_TOKENIZER, estimateMessageTokens } from "../lib/tokenizer"
+import { createPluginState } from "../lib/state"
+import { buildBody, createStubClient, createTestLogger, type ToolCallSpec } from "./helpers"
+
+const NOW = 1_000_000_000
+const CONFIG: CacheConfig = { enabled: true, ttlSeconds: 300, horizonRequests: 5 }
+
+// OpenAI Chat messages: system, user, an assistant call and its output per call (2-3, 4-5, 6-7), user.
+// Anthropic has no system message, so its outputs sit at 2, 4 and 6.
+const CALLS: ToolCallSpec[] = [
+    { id: "call_1", name: "read", output: "first ".repeat(200) },
+    { id: "call_2", name: "read", output: "second ".repeat(200) },
+    { id: "call_3", name: "read", output: "third ".repeat(200) }
+]
+
+function warmCache(lastMessageCount: number): CacheState {
+    return { ...createCacheState(), lastRequestAt: NOW - 60 * 1000, lastMessageCount }
+}
+
+/** Plans replacing one tool output of a fresh body, the way the janitor does */
+function plan(
+    format: "openai-chat" | "anthropic",
+    callId: string,
+    cacheState: CacheState,
+    pendingTokens: number,
+    config = CONFIG,
+    prepare: (body: any) => void = () => {}
+) {
+    const body = buildBody(format, CALLS)
+    prepare(body)
+    const descriptor = detectFormat(body)!
+    const rewritten = structuredClone(body)
+    replaceToolOutput(rewritten, descriptor, callId, "[pruned]", createPluginState(), null)
+    return { body, result: planRewrite(body, rewritten, descriptor, cacheState, pendingTokens, DEFAULT_TOKENIZER, NOW, config) }
+}
+
+describe("getCachedPrefixLength", () => {
+    it("is empty when the cache is cold or has expired", () => {
+        const body = buildBody("openai-chat", CALLS)
+        const format = detectFormat(body)!
+
+        assert.equal(getCachedPrefixLength(body, format, createCacheState(), NOW, CONFIG), 0)
+        const expired = { ...warmCache(9), lastRequestAt: NOW - (CONFIG.ttlSeconds + 1) * 1000 }
+        assert.equal(getCachedPrefixLength(body, format, expired, NOW, CONFIG), 0)
+    })
+
+    it("covers the previous request's messages with automatic prefix caching", () => {
+        const body = buildBody("openai-chat", CALLS)
+        assert.equal(getCachedPrefixLength(body, detectFormat(body)!, warmCache(6), NOW, CONFIG), 6)
+    })
+
+    it("ends after the last message breakpoint with explicit caching, within the previous request", () => {
+        const body = buildBody("anthropic", CALLS)
+        const format = detectFormat(body)!
+        assert.equal(getCachedPrefixLength(body, format, warmCache(8), NOW, CONFIG), 0)
+
+        body.messages[3].content[0].cache_control = { type: "ephemeral" }
+        assert.equal(getCachedPrefixLength(body, format, warmCache(8), NOW, CONFIG), 4)
+        assert.equal(getCachedPrefixLength(body, format, warmCache(2), NOW, CONFIG), 2)
+    })
+})
+
+describe("planRewrite", () => {
+    it("applies rewrites right away without caching or with a cold cache", () => {
+        assert.equal(plan("openai-chat", "call_1", warmCache(9), 0, { ...CONFIG, enabled: false }).result.reason, "no-cache")
+        assert.equal(plan("openai-chat", "call_1", createCacheState(), 0).result.reason, "cache-cold")
+    })
+
+    it("applies rewrites that start at or after the cached prefix", () => {
+        const { result } = plan("openai-chat", "call_3", warmCache(7), 0)
+
+        assert.equal(result.firstChangedIndex, 7)
+        assert.equal(result.apply, true)
+        assert.equal(result.reason, "after-prefix")
+        assert.equal(result.cacheMissTokens, 0)
+    })
+
+    it("defers a rewrite inside the prefix that costs more to re-cache than it saves", () => {
+        // Without a breakpoint nothing is cached for Anthropic
+        assert.equal(plan("anthropic", "call_1", warmCache(8), 10).result.reason, "after-prefix")
+
+        const { body, result } = plan("anthropic", "call_1", warmCache(8), 10, CONFIG, body => {
+            body.messages[7].content[0].cache_control = { type: "ephemeral" }
+        })
+        const format = detectFormat(body)!
+        const missed = body.messages.slice(2).reduce((sum: number, m: any) => sum + estimateMessageTokens(m, format, DEFAULT_TOKENIZER), 0)
+
+        assert.equal(result.apply, false)
+        assert.equal(result.reason, "deferred")
+        assert.equal(result.firstChangedIndex, 2)
+        assert.equal(result.cacheMissTokens, missed)
+        // Anthropic cache writes cost 1.25 and reads 0.1 of an input token
+        assert.ok(Math.abs(result.cacheMissCost - missed * 1.15) < 1e-9)
+        assert.equal(result.projectedSavings, 10 * 0.1 * CONFIG.horizonRequests)
+    })
+
+    it("applies a rewrite inside the prefix once the projected savings outweigh the cost", () => {
+        const { result } = plan("openai-chat", "call_1", warmCache(9), 100_000)
+
+        assert.equal(result.firstChangedIndex, 3)
+        assert.equal(result.apply, true)
+        assert.equal(result.reason, "worth-it")
+        assert.ok(result.cacheMissTokens > 0)
+    })
+})
+
+describe("cache cost in the notification", () => {
+    async function header(totalTokensSaved: number, totalCacheMissTokens: number, totalCacheMissCost: number) {
+        const client = createStubClient()
+        const ctx = { client, logger: createTestLogger(), config: { pruningSummary: "minimal" as const } }
+        await sendUnifiedNotification(ctx, "ses_cache", {
+            aiPrunedCount: 1,
+            aiTokensSaved: totalTokensSaved,
+            aiPrunedIds: ["call_1"],
+            toolMetadata: new Map(),
+            gcPending: null,
+            sessionStats: { ...createSessionStats(), totalToolsPruned: 1, totalTokensSaved, totalCacheMissTokens, totalCacheMissCost }
+        })
+        return client.calls[0].args.body.parts[0].text as string
+    }
+
+    it("shows the savings net of the weighted re-caching cost", async () => {
+        assert.match(await header(5000, 2000, 2300), /▣ Cache \| ~2K tokens re-cached by rewrites \(cost ~2\.3K tokens\), ~2\.7K tokens net saved/)
+        assert.match(await header(1000, 2000, 2300), /~1\.3K tokens net lost/)
+        assert.doesNotMatch(await header(1000, 0, 0), /▣ Cache/)
+    })
+})
@@ -0,0 +1,160 @@
+import { describe, it, before, after, beforeEach } from "node:test"
+import assert from "node:assert/strict"
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises"
+import { tmpdir } from "os"
+import { dirname, join } from "path"
+import { defaultConfig, getGlobalConfigPath, getProjectConfigPath, loadConfig, parseJsonc } from "../lib/config"
+
+describe("parseJsonc", () => {
+    it("drops line and block comments", () => {
+        const text = `{
+            // a line comment
+            "a": 1, /* a block
+            comment */ "b": [2]
+        }`
+        assert.deepEqual(parseJsonc(text), { a: 1, b: [2] })
+    })
+
+    it("drops trailing commas in objects and arrays", () => {
+        assert.deepEqual(parseJsonc(`{ "a": [1, 2,], "b": { "c": 3, }, }`), { a: [1, 2], b: { c: 3 } })
+    })
+
+    it("keeps comment markers, brackets and escaped quotes inside strings", () => {
+        const text = `{ "url": "https://example.com//x", "glob": "/* not a comment */", "quoted": "say \\"hi\\" // ok", "list": ",]" }`
+        assert.deepEqual(parseJsonc(text), {
+            url: "https://example.com//x",
+            glob: "/* not a comment */",
+            quoted: `say "hi" // ok`,
+            list: ",]"
+        })
+    })
+
+    it("reports unterminated comments and invalid JSON", () => {
+        assert.throws(() => parseJsonc(`{ "a": 1 /* open`), /Unterminated block comment/)
+        assert.throws(() => parseJsonc(`{ "a": }`), /Invalid JSONC/)
+    })
+})
+
+describe("loadConfig", () => {
+    const originalHome = process.env.HOME
+    let home: string
+    let project: string
+
+    before(async () => {
+        home = await mkdtemp(join(tmpdir(), "dcp-config-"))
+        process.env.HOME = home
+        project = join(home, "project")
+    })
+
+    after(async () => {
+        process.env.HOME = originalHome
+        await rm(home, { recursive: true, force: true })
+    })
+
+    beforeEach(async () => {
+        await rm(getGlobalConfigPath(), { force: true })
+        await rm(getProjectConfigPath(project), { force: true })
+    })
+
+    async function write(path: string, text: string): Promise<void> {
+        await mkdir(dirname(path), { recursive: true })
+        await writeFile(path, text)
+    }
+
+    it("uses the defaults when there is no config file", async () => {
+        const result = await loadConfig(project)
+
+        assert.deepEqual(result.config, defaultConfig)
+        assert.deepEqual(result.sources, [])
+        assert.deepEqual(result.errors, [])
+    })
+
+    it("layers the project file over the global file, merging objects and replacing arrays", async () => {
+        await write(getGlobalConfigPath(), `{
+            "protectedTools": ["task"],
+            "cache": { "ttlSeconds": 600 },
+            "budget": { "thresholds": { "prune": 0.5 } },
+        }`)
+        await write(getProjectConfigPath(project), `{
+            // Project settings win
+            "protectedTools": ["write"],
+            "cache": { "horizonRequests": 3 },
+        }`)
+
+        const { config, sources, errors } = await loadConfig(project)
+
+        assert.deepEqual(errors, [])
+        assert.deepEqual(sources, [getGlobalConfigPath(), getProjectConfigPath(project)])
+        assert.deepEqual(config.protectedTools, ["write"])
+        assert.deepEqual(config.cache, { ...defaultConfig.cache, ttlSeconds: 600, horizonRequests: 3 })
+        assert.deepEqual(config.budget.thresholds, { ...defaultConfig.budget.thresholds, prune: 0.5 })
+    })
+
+    it("skips invalid values and unknown keys, keeping the rest of the file", async () => {
+        await write(getProjectConfigPath(project), `{
+            "enabled": "yes",
+            "keepRecentToolOutputs": -1,
+            "pruningSummary": "loud",
+            "protectedTool": ["task"],
+            "redaction": { "minEntropy": 9, "rules": { "bad": "(", "good": "tok_[a-z]+" } },
+            "minPruneTokens": 50
+        }`)
+
+        const { config, errors } = await loadConfig(project)
+        const path = getProjectConfigPath(project)
+
+        assert.deepEqual(errors, [
+            `${path}: "enabled" must be true or false, got "yes"`,
+            `${path}: "keepRecentToolOutputs" must be an integer >= 0, got -1`,
+            `${path}: "pruningSummary" must be one of "off", "minimal", "detailed", got "loud"`,
+            `${path}: unknown key "protectedTool" (did you mean "protectedTools"?)`,
+            `${path}: "redaction.minEntropy" must be a number between 0 and 8, got 9`,
+            `${path}: "redaction.rules.bad" is not a valid regular expression: ${regexError("(")}`
+        ])
+        assert.equal(config.enabled, defaultConfig.enabled)
+        assert.equal(config.minPruneTokens, 50)
+        assert.deepEqual(config.redaction.rules, { good: "tok_[a-z]+" })
+    })
+
+    it("reports a file that does not parse and still applies the other layer", async () => {
+        await write(getGlobalConfigPath(), `{ "minPruneTokens": 10 }`)
+        await write(getProjectConfigPath(project), `{ "minPruneTokens": }`)
+
+        const { config, sources, errors } = await loadConfig(project)
+
+        assert.equal(config.minPruneTokens, 10)
+        assert.deepEqual(sources, [getGlobalConfigPath()])
+        assert.equal(errors.length, 1)
+        assert.match(errors[0], /dcp\.jsonc: Invalid JSONC/)
+    })
+
+    it("rejects budget thresholds that decrease once the layers are merged", async () => {
+        await write(getGlobalConfigPath(), `{ "budget": { "thresholds": { "summarize": 0.7 } } }`)
+        await write(getProjectConfigPath(project), `{ "budget": { "thresholds": { "prune": 0.5 } } }`)
+
+        const { config, errors } = await loadConfig(project)
+
+        assert.deepEqual(config.budget.thresholds, defaultConfig.budget.thresholds)
+        assert.deepEqual(errors, [
+            `"budget.thresholds" must not decrease in the order prune, truncate, summarize, drop, got prune 0.5, truncate 0.75, summarize 0.7, drop 0.95; using the defaults`
+        ])
+    })
+
+    it("accepts equal budget thresholds", async () => {
+        await write(getProjectConfigPath(project), `{ "budget": { "thresholds": { "prune": 0.8, "truncate": 0.8, "summarize": 0.9, "drop": 0.9 } } }`)
+
+        const { config, errors } = await loadConfig(project)
+
+        assert.deepEqual(errors, [])
+        assert.deepEqual(config.budget.thresholds, { prune: 0.8, truncate: 0.8, summarize: 0.9, drop: 0.9 })
+    })
+})
+
+function regexError(source: string): string {
+    try {
+        new RegExp(source)
+        return ""
+    } catch (error: any) {
+        return error.message
+    }
+}
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { Janitor } from "../lib/core/janitor"
+import { pinOutputs } from "../lib/core/protection"
+import { createContextPruneTool } from "../lib/tools/context-prune"
+import { defaultConfig } from "../lib/config"
+import { detectFormat } from "../lib/fetch-wrapper"
+import { createPluginState } from "../lib/state"
+import { buildBody, buildSessionMessages, createStubClient, createTestLogger, type ToolCallSpec } from "./helpers"
+
+const SESSION_ID = "ses_prune_tool"
+
+const CALLS: ToolCallSpec[] = [
+    { id: "call_spec", name: "read", output: "the spec ".repeat(100) },
+    { id: "call_notes", name: "read", output: "some notes ".repeat(100) },
+    { id: "call_grep", name: "grep", output: "src/a.ts:1: match\n".repeat(20) },
+    { id: "call_todo", name: "todowrite", output: "[ ] ship it" }
+]
+
+function setup() {
+    const state = createPluginState()
+    state.toolParameters.set("call_spec", { tool: "read", parameters: { filePath: "/work/docs/spec.md" } })
+    state.toolParameters.set("call_notes", { tool: "read", parameters: { filePath: "/work/notes.txt" } })
+    state.toolParameters.set("call_grep", { tool: "grep", parameters: { pattern: "match" } })
+    state.toolParameters.set("call_todo", { tool: "todowrite", parameters: { todos: [] } })
+    const config = structuredClone(defaultConfig)
+    config.protectedPaths = ["docs/*.md"]
+    const client = createStubClient({ messages: { [SESSION_ID]: buildSessionMessages(CALLS) } })
+    const janitor = new Janitor({ client, state, logger: createTestLogger(), config })
+
+    const body = buildBody("openai-chat", CALLS)
+    janitor.trackToolOutputs(SESSION_ID, detectFormat(body)!.extractToolOutputs(body.messages, state, SESSION_ID))
+
+    const pruneTool = createContextPruneTool(janitor, "/work")
+    const toolCtx = { sessionID: SESSION_ID, messageID: "msg_1", agent: "build", abort: new AbortController().signal }
+    return { state, client, execute: (args: { action: "list" | "prune", ids?: string[] }) => pruneTool.execute(args, toolCtx) }
+}
+
+describe("context_prune tool", () => {
+    it("lists the outputs in context with their sizes, flagging protected ones", async () => {
+        const { execute } = setup()
+
+        const list = await execute({ action: "list" })
+
+        assert.match(list, /^Tool outputs in context \(4, ~\d+ tokens\):/)
+        assert.match(list, /call_spec read: \/work\/docs\/spec\.md \(~\d+ tokens\) \[protected\]/)
+        assert.match(list, /call_notes read: \/work\/notes\.txt \(~\d+ tokens\)$/m)
+        assert.match(list, /call_todo todowrite: .* \[protected\]/)
+    })
+
+    it("prunes the given IDs, whatever their case, and reports what was pruned", async () => {
+        const { state, client, execute } = setup()
+
+        const result = await execute({ action: "prune", ids: ["CALL_NOTES", "call_grep"] })
+
+        assert.equal(result, [
+            "Context pruning complete. Pruned 2 tool outputs.",
+            "",
+            "Semantically pruned (2):",
+            "  read: notes.txt",
+            "  grep: \"match\""
+        ].join("\n"))
+        assert.deepEqual(state.prunedIds.get(SESSION_ID), ["call_notes", "call_grep"])
+        assert.equal(client.calls.filter(c => c.method === "session.prompt").length, 1)
+        assert.doesNotMatch(await execute({ action: "list" }), /call_notes|call_grep/)
+    })
+
+    it("skips unknown, already pruned, pinned and protected IDs and says why", async () => {
+        const { state, client, execute } = setup()
+        await execute({ action: "prune", ids: ["call_grep"] })
+        pinOutputs(state, SESSION_ID, ["call_notes"])
+
+        const result = await execute({ action: "prune", ids: ["call_missing", "call_grep", "call_notes", "call_spec", "call_todo"] })
+
+        assert.equal(result, [
+            "Context pruning complete. Pruned 0 tool outputs.",
+            "",
+            "Skipped (5):",
+            "  call_missing: not found in context",
+            "  call_grep: already pruned",
+            "  call_notes: protected",
+            "  call_spec: protected",
+            "  call_todo: protected"
+        ].join("\n"))
+        assert.deepEqual(state.prunedIds.get(SESSION_ID), ["call_grep"])
+        // Only the first prune sent a notification
+        assert.equal(client.calls.filter(c => c.method === "session.prompt").length, 1)
+    })
+
+    it("asks for call IDs when none are given", async () => {
+        const { state, execute } = setup()
+
+        assert.equal(await execute({ action: "prune" }), "No call IDs given. Use the list action to see the tool outputs in context.")
+        assert.equal(state.prunedIds.get(SESSION_ID)?.length ?? 0, 0)
+    })
+})
@@ -0,0 +1,136 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { buildContextReport, formatContextReport } from "../lib/ui/context-report"
+import { CONTEXT_COMMAND_NAME, createContextCommandHandler, registerContextCommand } from "../lib/commands/context"
+import { COMMAND_HANDLED_MESSAGE, createCommandExecuteBeforeHandler, createEventHandler } from "../lib/hooks"
+import { Janitor, PRUNED_OUTPUT_PLACEHOLDER } from "../lib/core/janitor"
+import { createBudgetState } from "../lib/core/budget"
+import { defaultConfig } from "../lib/config"
+import { estimateTokens, getSessionTokenizer } from "../lib/tokenizer"
+import { createPluginState, type PluginState } from "../lib/state"
+import { createStubClient, createTestLogger } from "./helpers"
+
+const SESSION_ID = "ses_report"
+
+function toolPart(callID: string, tool: string, input: any, output: string) {
+    return { type: "tool", callID, tool, state: { status: "completed", input, output } }
+}
+
+function buildMessages(): any[] {
+    return [
+        { info: { id: "msg_1", role: "user" }, parts: [{ type: "text", text: "Fix the failing test" }] },
+        {
+            info: { id: "msg_2", role: "assistant" },
+            parts: [
+                { type: "text", text: "Looking at the code." },
+                toolPart("call_big", "read", { filePath: "/work/src/big.ts" }, "line\n".repeat(2000)),
+                toolPart("call_small", "read", { filePath: "/work/src/small.ts" }, "export {}"),
+                toolPart("call_old", "bash", { command: "npm test" }, "output ".repeat(500))
+            ]
+        },
+        { info: { id: "msg_3", role: "user" }, parts: [{ type: "text", text: "shown only to the user", ignored: true }] }
+    ]
+}
+
+function createState(): PluginState {
+    const state = createPluginState()
+    state.model.set(SESSION_ID, { providerID: "anthropic", modelID: "claude-sonnet-4-5" })
+    state.prunedIds.set(SESSION_ID, ["call_old"])
+    state.toolParameters.set("call_old", { tool: "bash", parameters: { command: "npm test" } })
+    state.toolParameters.set("call_big", { tool: "read", parameters: { filePath: "/work/src/big.ts" } })
+    return state
+}
+
+describe("buildContextReport", () => {
+    it("breaks the history down by role and tool, counting pruned outputs as their replacement", () => {
+        const state = createState()
+        const report = buildContextReport(state, defaultConfig, SESSION_ID, buildMessages())
+
+        assert.deepEqual(report.roles.map(r => r.role), ["tool", "assistant", "user"])
+        assert.deepEqual(report.tools.map(t => [t.tool, t.count]), [["read", 2], ["bash", 1]])
+        assert.equal(report.tools[1].tokens, estimateTokens(PRUNED_OUTPUT_PLACEHOLDER, getSessionTokenizer(state, SESSION_ID)))
+        assert.deepEqual(report.largest.map(o => o.id), ["call_big", "call_small"])
+        assert.equal(report.reported, false)
+        assert.equal(report.contextLimit, 200000)
+    })
+
+    it("counts truncated outputs at their truncated size", () => {
+        const state = createState()
+        const truncated = "line\n[... truncated to save context ...]\nline\n"
+        state.truncations.set(SESSION_ID, new Map([["call_big", truncated]]))
+        const report = buildContextReport(state, defaultConfig, SESSION_ID, buildMessages())
+
+        const tokens = estimateTokens(truncated, getSessionTokenizer(state, SESSION_ID))
+        const big = report.largest.find(o => o.id === "call_big")
+        assert.equal(big?.tokens, tokens)
+        assert.equal(report.tools.find(t => t.tool === "read")?.tokens, tokens + estimateTokens("export {}", getSessionTokenizer(state, SESSION_ID)))
+    })
+
+    it("prefers the provider's reported tokens and the budget's measurement", () => {
+        const state = createState()
+        state.usage.set(SESSION_ID, { inputTokens: 150000 })
+        state.budget.set(SESSION_ID, {
+            ...createBudgetState(),
+            lastMeasurement: { contextLimit: 200000, budget: 184000, before: 150500, after: 149000 }
+        })
+
+        const text = formatContextReport(buildContextReport(state, defaultConfig, SESSION_ID, buildMessages()), "/work")
+
+        assert.match(text, /^▣ Context \| ~150K tokens of 200K tokens \(75%\), ~50K tokens left · anthropic\/claude-sonnet-4-5/)
+        assert.match(text, /input budget 184K tokens/)
+        assert.match(text, /read: src\/big\.ts/)
+        assert.match(text, /bash: npm test/)
+    })
+})
+
+describe("/context command", () => {
+    it("is registered without replacing a user-defined command", () => {
+        const opencodeConfig: any = {}
+        registerContextCommand(opencodeConfig)
+        assert.ok(opencodeConfig.command[CONTEXT_COMMAND_NAME].template)
+
+        const custom = { command: { [CONTEXT_COMMAND_NAME]: { template: "mine" } } }
+        registerContextCommand(custom)
+        assert.equal(custom.command[CONTEXT_COMMAND_NAME].template, "mine")
+    })
+
+    it("sends the report as an ignored message when the command runs", async () => {
+        const state = createState()
+        const logger = createTestLogger()
+        const client = createStubClient({ messages: { [SESSION_ID]: buildMessages() } })
+        const janitor = new Janitor({ client, state, logger, config: defaultConfig })
+        const handler = createContextCommandHandler(janitor, state, defaultConfig)
+
+        const onEvent = createEventHandler(client, state, logger, undefined, async (name, sessionId) => {
+            if (name === CONTEXT_COMMAND_NAME) await handler(sessionId)
+        })
+        await onEvent({ event: { type: "command.executed", properties: { name: "context", sessionID: SESSION_ID, arguments: "", messageID: "msg_4" } } })
+
+        const prompt = client.calls.find(c => c.method === "session.prompt")!
+        assert.equal(prompt.args.body.noReply, true)
+        assert.equal(prompt.args.body.parts[0].ignored, true)
+        assert.match(prompt.args.body.parts[0].text, /^▣ Context/)
+    })
+
+    it("sends the report before the command runs and aborts it, so the model is never prompted", async () => {
+        const state = createState()
+        const logger = createTestLogger()
+        const client = createStubClient({ messages: { [SESSION_ID]: buildMessages() } })
+        const janitor = new Janitor({ client, state, logger, config: defaultConfig })
+        const onCommand = createCommandExecuteBeforeHandler(state, logger, {
+            [CONTEXT_COMMAND_NAME]: createContextCommandHandler(janitor, state, defaultConfig)
+        })
+
+        await assert.rejects(
+            onCommand({ command: "context", sessionID: SESSION_ID, arguments: "" }, { parts: [] }),
+            { message: COMMAND_HANDLED_MESSAGE }
+        )
+        const prompts = client.calls.filter(c => c.method === "session.prompt")
+        assert.equal(prompts.length, 1)
+        assert.equal(prompts[0].args.body.noReply, true)
+        assert.match(prompts[0].args.body.parts[0].text, /^▣ Context/)
+
+        // Commands of other plugins and the user run as usual
+        await onCommand({ command: "review", sessionID: SESSION_ID, arguments: "" }, { parts: [] })
+    })
+})
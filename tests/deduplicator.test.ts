@@ -0,0 +1,85 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { findDuplicateToolOutputs } from "../lib/core/deduplicator"
+import { Janitor } from "../lib/core/janitor"
+import { pinOutputs } from "../lib/core/protection"
+import { defaultConfig } from "../lib/config"
+import { createPluginState, type ToolMetadata } from "../lib/state"
+import type { ToolOutput } from "../lib/fetch-wrapper"
+import { createStubClient, createTestLogger } from "./helpers"
+
+const SESSION_ID = "ses_dedup"
+
+/** Outputs with the same content, so only their calls can tell them apart */
+function outputs(ids: string[]): ToolOutput[] {
+    return ids.map(id => ({ id, content: "export const answer = 42\n" }))
+}
+
+describe("findDuplicateToolOutputs", () => {
+    it("keeps the newest of repeated calls and returns the older ones in request order", () => {
+        const metadata = new Map<string, ToolMetadata>([
+            ["call_1", { tool: "read", parameters: { filePath: "/work/a.ts" } }],
+            ["call_2", { tool: "read", parameters: { filePath: "/work/b.ts" } }],
+            ["call_3", { tool: "read", parameters: { filePath: "/work/a.ts" } }],
+            ["call_4", { tool: "read", parameters: { filePath: "/work/a.ts" } }]
+        ])
+
+        assert.deepEqual(findDuplicateToolOutputs(outputs(["call_1", "call_2", "call_3", "call_4"]), metadata, []), ["call_1", "call_3"])
+    })
+
+    it("does not treat identical outputs of different tools or parameters as duplicates", () => {
+        const metadata = new Map<string, ToolMetadata>([
+            ["call_grep", { tool: "grep", parameters: { pattern: "answer" } }],
+            ["call_glob", { tool: "glob", parameters: { pattern: "answer" } }],
+            ["call_a", { tool: "read", parameters: { filePath: "/work/a.ts" } }],
+            ["call_b", { tool: "read", parameters: { filePath: "/work/b.ts" } }],
+            ["call_limit", { tool: "read", parameters: { filePath: "/work/b.ts", limit: 10 } }]
+        ])
+
+        assert.deepEqual(findDuplicateToolOutputs(outputs([...metadata.keys()]), metadata, []), [])
+    })
+
+    it("compares full parameters when the display key is shortened", () => {
+        const metadata = new Map<string, ToolMetadata>([
+            ["call_1", { tool: "bash", parameters: { command: "npm test", description: "Run tests" } }],
+            ["call_2", { tool: "bash", parameters: { command: "npm test -- --watch=false", description: "Run tests" } }]
+        ])
+
+        assert.deepEqual(findDuplicateToolOutputs(outputs(["call_1", "call_2"]), metadata, []), [])
+    })
+
+    it("skips protected tools and calls without metadata", () => {
+        const metadata = new Map<string, ToolMetadata>([
+            ["call_1", { tool: "todowrite", parameters: { todos: [] } }],
+            ["call_2", { tool: "todowrite", parameters: { todos: [] } }]
+        ])
+
+        assert.deepEqual(findDuplicateToolOutputs(outputs(["call_1", "call_2"]), metadata, ["todowrite"]), [])
+        assert.deepEqual(findDuplicateToolOutputs(outputs(["call_1", "call_2"]), new Map(), []), [])
+    })
+})
+
+describe("Janitor.deduplicate", () => {
+    it("leaves pinned outputs and outputs under protected paths alone", () => {
+        const state = createPluginState()
+        const config = structuredClone(defaultConfig)
+        config.protectedPaths = ["docs/*.md"]
+        const files: Record<string, string> = {
+            call_spec_1: "/work/docs/spec.md", call_spec_2: "/work/docs/spec.md",
+            call_a_1: "/work/a.ts", call_a_2: "/work/a.ts",
+            call_b_1: "/work/b.ts", call_b_2: "/work/b.ts"
+        }
+        for (const [id, filePath] of Object.entries(files)) {
+            state.toolParameters.set(id, { tool: "read", parameters: { filePath } })
+        }
+        pinOutputs(state, SESSION_ID, ["call_a_1"])
+        const janitor = new Janitor({ client: createStubClient(), state, logger: createTestLogger(), config })
+        const toolOutputs = outputs(Object.keys(files))
+        janitor.trackToolOutputs(SESSION_ID, toolOutputs)
+
+        const collected = janitor.deduplicate(SESSION_ID, toolOutputs)
+
+        assert.equal(collected.toolsDeduped, 1)
+        assert.deepEqual([...state.prunedIds.get(SESSION_ID) ?? []], ["call_b_1"])
+    })
+})
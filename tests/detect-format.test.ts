@@ -0,0 +1,121 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { detectFormat, replaceToolOutput } from "../lib/fetch-wrapper"
+import { createPluginState } from "../lib/state"
+import { FORMAT_NAMES, loadFixture } from "./helpers"
+
+describe("detectFormat", () => {
+    for (const name of FORMAT_NAMES) {
+        it(`detects the ${name} fixture`, () => {
+            assert.equal(detectFormat(loadFixture(name))?.name, name)
+        })
+    }
+
+    it("detects Bedrock before OpenAI Chat, although both have messages[]", () => {
+        const body = loadFixture("bedrock")
+        assert.equal(detectFormat(body)?.name, "bedrock")
+
+        delete body.inferenceConfig
+        assert.notEqual(detectFormat(body)?.name, "bedrock")
+    })
+
+    it("detects Anthropic by its top-level system prompt alone", () => {
+        const body = {
+            model: "claude-haiku-4-5",
+            system: "You are helpful",
+            messages: [{ role: "user", content: "hi" }]
+        }
+        assert.equal(detectFormat(body)?.name, "anthropic")
+    })
+
+    it("detects Anthropic by its content blocks when there is no system prompt", () => {
+        const body = loadFixture("anthropic")
+        delete body.system
+        assert.equal(detectFormat(body)?.name, "anthropic")
+    })
+
+    it("keeps plain chat messages as OpenAI Chat", () => {
+        const body = {
+            model: "gpt-4o-mini",
+            messages: [
+                { role: "system", content: "You are helpful" },
+                { role: "user", content: [{ type: "text", text: "hi" }] }
+            ]
+        }
+        assert.equal(detectFormat(body)?.name, "openai-chat")
+    })
+
+    it("returns null for bodies it does not know", () => {
+        assert.equal(detectFormat({ prompt: "hello" }), null)
+        assert.equal(detectFormat({}), null)
+    })
+})
+
+describe("extractToolOutputs on fixtures", () => {
+    const expected: Record<typeof FORMAT_NAMES[number], Array<{ id: string, toolName?: string, content: string }>> = {
+        "openai-chat": [
+            { id: "call_read1", toolName: undefined, content: "{\n  \"name\": \"demo\",\n  \"scripts\": { \"build\": \"tsc\" }\n}" },
+            { id: "call_bash2", toolName: undefined, content: "> demo@1.0.0 build\n> tsc\n" }
+        ],
+        "openai-responses": [
+            { id: "call_glob1", toolName: undefined, content: "src/index.ts\nsrc/util.ts" },
+            { id: "call_read2", toolName: undefined, content: "export * from './util'\n" }
+        ],
+        "anthropic": [
+            { id: "toolu_01bash", toolName: "bash", content: "1 failing\n  expected 2 to equal 3" },
+            { id: "toolu_02read", toolName: "read", content: "assert.equal(add(1, 1), 3)" }
+        ],
+        "gemini": [
+            { id: "gemini-read-0", toolName: "read", content: "{ \"a\": 1 }" },
+            { id: "gemini-read-1", toolName: "read", content: "{ \"b\": 2 }" },
+            { id: "gemini-bash-0", toolName: "bash", content: "a.json\nb.json" }
+        ],
+        "bedrock": [
+            { id: "tooluse_git1", toolName: undefined, content: "On branch main\nnothing to commit" }
+        ]
+    }
+
+    for (const name of FORMAT_NAMES) {
+        it(`extracts every tool output of the ${name} fixture`, () => {
+            const body = loadFixture(name)
+            const format = detectFormat(body)!
+            const outputs = format.extractToolOutputs(format.getDataArray(body)!, createPluginState(), null)
+
+            assert.deepEqual(outputs, expected[name])
+            assert.equal(format.hasToolOutputs(format.getDataArray(body)!), true)
+        })
+    }
+})
+
+describe("Anthropic via OpenAI Chat", () => {
+    it("detects the proxied request as OpenAI Chat", () => {
+        assert.equal(detectFormat(loadFixture("anthropic-via-chat"))?.name, "openai-chat")
+    })
+
+    it("extracts the text of tool outputs sent as text parts", () => {
+        const body = loadFixture("anthropic-via-chat")
+        const format = detectFormat(body)!
+        const outputs = format.extractToolOutputs(format.getDataArray(body)!, createPluginState(), null)
+
+        assert.deepEqual(outputs.map(o => [o.id, o.content]), [
+            ["toolu_01bash", "1 failing\n  expected 2 to equal 3"],
+            ["toolu_02read", "assert.equal(add(1, 1), 3)"]
+        ])
+    })
+
+    it("keeps the shape and cache breakpoint of the tool output it replaces", () => {
+        const body = loadFixture("anthropic-via-chat")
+        const before = structuredClone(body)
+        const format = detectFormat(body)!
+
+        assert.equal(replaceToolOutput(body, format, "toolu_01Bash", "[pruned]", createPluginState(), "ses_proxy"), true)
+        assert.equal(replaceToolOutput(body, format, "toolu_02Read", "[pruned]", createPluginState(), "ses_proxy"), true)
+
+        assert.equal(body.messages[3].content, "[pruned]")
+        assert.deepEqual(body.messages[5].content, [{ type: "text", text: "[pruned]", cache_control: { type: "ephemeral" } }])
+        // Nothing else moves, so the cached prefix before the rewrite stays intact
+        for (const i of [0, 1, 2, 4, 6]) {
+            assert.deepEqual(body.messages[i], before.messages[i])
+        }
+    })
+})
@@ -0,0 +1,167 @@
+import { describe, it, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { installFetchWrapper, type RequestInterceptor } from "../lib/fetch-wrapper"
+import { defaultConfig } from "../lib/config"
+import { createPluginState } from "../lib/state"
+import { buildBody, createStubClient, createTestLogger } from "./helpers"
+
+interface SentCall {
+    input: any
+    init: any
+}
+
+/** Marks each intercepted body, so the tests can see the rewritten request arrive */
+const markingInterceptor: RequestInterceptor = (body) => {
+    body.intercepted = true
+    return { body, modified: true }
+}
+
+const passThroughInterceptor: RequestInterceptor = (body) => ({ body, modified: false })
+
+async function readSentBody(call: SentCall): Promise<any> {
+    const request = new Request(call.input, call.init)
+    return JSON.parse(await request.text())
+}
+
+describe("installFetchWrapper", () => {
+    const originalFetch = globalThis.fetch
+    let sent: SentCall[]
+    let cleanup: (() => void) | undefined
+
+    beforeEach(() => {
+        sent = []
+        globalThis.fetch = async (input: any, init?: any) => {
+            sent.push({ input, init })
+            return new Response("{}", { headers: { "content-type": "application/json" } })
+        }
+    })
+
+    afterEach(() => {
+        cleanup?.()
+        cleanup = undefined
+        globalThis.fetch = originalFetch
+    })
+
+    function install(interceptor: RequestInterceptor = markingInterceptor) {
+        const config = structuredClone(defaultConfig)
+        config.recorder.enabled = false
+        cleanup = installFetchWrapper(createPluginState(), createTestLogger(), createStubClient(), config, interceptor)
+    }
+
+    it("rewrites a string body and keeps headers and signal (OpenAI, AI SDK)", async () => {
+        install()
+        const controller = new AbortController()
+        await fetch("https://api.openai.com/v1/chat/completions", {
+            method: "POST",
+            headers: { "content-type": "application/json", "authorization": "Bearer key", "content-length": "12" },
+            body: JSON.stringify(buildBody("openai-chat", [])),
+            signal: controller.signal
+        })
+
+        const [call] = sent
+        assert.equal(call.input, "https://api.openai.com/v1/chat/completions")
+        assert.equal(call.init.method, "POST")
+        assert.equal(call.init.signal, controller.signal)
+        assert.equal(call.init.headers.get("authorization"), "Bearer key")
+        assert.equal(call.init.headers.get("content-length"), null)
+        assert.equal((await readSentBody(call)).intercepted, true)
+    })
+
+    it("rewrites a body sent with a Headers instance (Anthropic)", async () => {
+        install()
+        await fetch("https://api.anthropic.com/v1/messages", {
+            method: "POST",
+            headers: new Headers({ "content-type": "application/json", "x-api-key": "key", "anthropic-version": "2023-06-01" }),
+            body: JSON.stringify(buildBody("anthropic", []))
+        })
+
+        const [call] = sent
+        assert.equal(call.init.headers.get("anthropic-version"), "2023-06-01")
+        assert.equal((await readSentBody(call)).intercepted, true)
+    })
+
+    it("intercepts a URL object input (Gemini)", async () => {
+        install()
+        const url = new URL("https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse")
+        await fetch(url, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(buildBody("gemini", []))
+        })
+
+        const [call] = sent
+        assert.equal(call.input, url.href)
+        assert.equal((await readSentBody(call)).intercepted, true)
+    })
+
+    it("intercepts a Request with a byte body (Bedrock)", async () => {
+        install()
+        const controller = new AbortController()
+        const request = new Request("https://bedrock-runtime.us-east-1.amazonaws.com/model/claude/converse-stream", {
+            method: "POST",
+            headers: { "content-type": "application/json", "x-amz-date": "20250101T000000Z" },
+            body: new TextEncoder().encode(JSON.stringify(buildBody("bedrock", []))),
+            signal: controller.signal
+        })
+        await fetch(request)
+
+        const [call] = sent
+        assert.equal(call.input, request.url)
+        assert.equal(call.init.method, "POST")
+        assert.equal(call.init.headers.get("x-amz-date"), "20250101T000000Z")
+        assert.equal((await readSentBody(call)).intercepted, true)
+
+        controller.abort()
+        assert.equal(call.init.signal.aborted, true)
+    })
+
+    it("intercepts a streamed body and keeps duplex (OpenAI Responses)", async () => {
+        install()
+        const bytes = new TextEncoder().encode(JSON.stringify(buildBody("openai-responses", [])))
+        const stream = new ReadableStream({
+            start(controller) {
+                controller.enqueue(bytes.subarray(0, 10))
+                controller.enqueue(bytes.subarray(10))
+                controller.close()
+            }
+        })
+        await fetch("https://api.openai.com/v1/responses", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: stream,
+            duplex: "half"
+        } as RequestInit)
+
+        const [call] = sent
+        assert.equal(call.init.duplex, "half")
+        assert.equal((await readSentBody(call)).intercepted, true)
+    })
+
+    it("sends a consumed stream as it was when the body is not modified", async () => {
+        install(passThroughInterceptor)
+        const text = JSON.stringify(buildBody("openai-chat", []))
+        await fetch("https://api.openai.com/v1/chat/completions", {
+            method: "POST",
+            body: new Blob([text]).stream(),
+            duplex: "half"
+        } as RequestInit)
+
+        assert.equal(new TextDecoder().decode(sent[0].init.body), text)
+    })
+
+    it("passes unmodified and non-JSON calls through untouched", async () => {
+        install(passThroughInterceptor)
+        const init = { method: "POST", body: JSON.stringify(buildBody("openai-chat", [])) }
+        await fetch("https://api.openai.com/v1/chat/completions", init)
+
+        cleanup!()
+        install()
+        const form = new URLSearchParams({ grant_type: "refresh_token" })
+        const formInit = { method: "POST", headers: { "content-type": "application/x-www-form-urlencoded" }, body: form }
+        await fetch("https://auth.example.com/token", formInit)
+
+        assert.equal(sent[0].init, init)
+        assert.equal(sent[1].init, formInit)
+        assert.equal(sent[1].init.body, form)
+    })
+})
@@ -0,0 +1,99 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { findStaleFileReads, FILE_MODIFIED_PLACEHOLDER } from "../lib/core/file-staleness"
+import { Janitor, createJanitorInterceptor } from "../lib/core/janitor"
+import { defaultConfig, type PluginConfig } from "../lib/config"
+import { detectFormat } from "../lib/fetch-wrapper"
+import { buildGeminiToolCallMapping } from "../lib/fetch-wrapper/gemini-correlation"
+import { createPluginState, type PluginState, type ToolMetadata } from "../lib/state"
+import { buildBody, buildSessionMessages, createStubClient, createTestLogger, FORMAT_NAMES, type ToolCallSpec } from "./helpers"
+
+const SESSION_ID = "ses_staleness"
+
+function metadataOf(entries: [string, ToolMetadata][]): Map<string, ToolMetadata> {
+    return new Map(entries)
+}
+
+describe("findStaleFileReads", () => {
+    it("finds reads followed by an edit or write of the same file", () => {
+        const outputs = ["r1", "e1", "r2", "r3", "w1", "r4"].map(id => ({ id }))
+        const metadata = metadataOf([
+            ["r1", { tool: "read", parameters: { filePath: "src/foo.ts" } }],
+            ["e1", { tool: "edit", parameters: { filePath: "src/foo.ts", oldString: "a", newString: "b" } }],
+            ["r2", { tool: "read", parameters: { filePath: "src/foo.ts" } }],
+            ["r3", { tool: "read", parameters: { filePath: "src/bar.ts" } }],
+            ["w1", { tool: "write", parameters: { filePath: "src/bar.ts", content: "x" } }],
+            ["r4", { tool: "read", parameters: { filePath: "src/baz.ts" } }]
+        ])
+
+        // r2 was read after the edit, and baz.ts was never modified
+        assert.deepEqual(findStaleFileReads(outputs, metadata, []), ["r1", "r3"])
+    })
+
+    it("ignores failed mutations and protected tools", () => {
+        const outputs = ["r1", "e1"].map(id => ({ id }))
+        const metadata = metadataOf([
+            ["r1", { tool: "read", parameters: { filePath: "src/foo.ts" } }],
+            ["e1", { tool: "edit", parameters: { filePath: "src/foo.ts" }, status: "error" }]
+        ])
+
+        assert.deepEqual(findStaleFileReads(outputs, metadata, []), [])
+        metadata.get("e1")!.status = "completed"
+        assert.deepEqual(findStaleFileReads(outputs, metadata, ["read"]), [])
+    })
+})
+
+describe("Janitor.invalidateStaleReads", () => {
+    const calls: ToolCallSpec[] = [
+        { id: "call_read_foo", name: "read", output: "old contents of foo" },
+        { id: "call_edit_foo", name: "edit", output: "Edit applied successfully." },
+        { id: "call_read_bar", name: "read", output: "contents of bar" }
+    ]
+
+    function createState(): PluginState {
+        const state = createPluginState()
+        state.toolParameters.set("call_read_foo", { tool: "read", parameters: { filePath: "src/foo.ts" } })
+        state.toolParameters.set("call_edit_foo", { tool: "edit", parameters: { filePath: "src/foo.ts" } })
+        state.toolParameters.set("call_read_bar", { tool: "read", parameters: { filePath: "src/bar.ts" } })
+        state.googleToolCallMapping.set(SESSION_ID, buildGeminiToolCallMapping(buildSessionMessages(calls)))
+        return state
+    }
+
+    for (const name of FORMAT_NAMES) {
+        it(`replaces the stale read with a marker (${name})`, () => {
+            const state = createState()
+            const config: PluginConfig = structuredClone(defaultConfig)
+            config.cache.enabled = false
+            const janitor = new Janitor({ client: createStubClient(), state, logger: createTestLogger(), config })
+
+            const body = buildBody(name, calls)
+            const format = detectFormat(body)!
+            const extract = () => format.extractToolOutputs(format.getDataArray(body)!, state, SESSION_ID)
+
+            const collected = janitor.invalidateStaleReads(SESSION_ID, extract())
+            janitor.applyPruning(SESSION_ID, body, format)
+
+            assert.equal(collected.toolsDeduped, 1)
+            assert.deepEqual(extract().map(o => o.content), [
+                FILE_MODIFIED_PLACEHOLDER,
+                "Edit applied successfully.",
+                "contents of bar"
+            ])
+        })
+    }
+
+    it("leaves reads alone in subagent sessions with the light policy", async () => {
+        const state = createState()
+        const config: PluginConfig = structuredClone(defaultConfig)
+        config.cache.enabled = false
+        const janitor = new Janitor({ client: createStubClient(), state, logger: createTestLogger(), config })
+
+        const body = buildBody("openai-chat", calls)
+        const format = detectFormat(body)!
+        const ctx = { state, logger: createTestLogger(), client: createStubClient(), config, sessionId: SESSION_ID, subagentPolicy: "light" as const }
+        const result = await createJanitorInterceptor(janitor)(body, format, body.messages, format.extractToolOutputs(body.messages, state, SESSION_ID), "", ctx)
+
+        assert.equal(result.modified, false)
+        assert.deepEqual(format.extractToolOutputs(body.messages, state, SESSION_ID).map(o => o.content), calls.map(c => c.output))
+    })
+})
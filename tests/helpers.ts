@@ -0,0 +1,188 @@
+/**
+ * Shared fixtures, builders and stubs for the test suite.
+ */
+
+import { readFileSync } from "fs"
+import { join } from "path"
+import { Logger } from "../lib/logger"
+
+export const FORMAT_NAMES = ["openai-chat", "openai-responses", "anthropic", "gemini", "bedrock"] as const
+export type FormatName = typeof FORMAT_NAMES[number]
+
+/** Fixtures of each format, plus Anthropic requests sent in OpenAI Chat shape through a proxy */
+export type FixtureName = FormatName | "anthropic-via-chat"
+
+/**
+ * Loads a fixture body from tests/fixtures. Every call returns a fresh copy.
+ */
+export function loadFixture(name: FixtureName): any {
+    return JSON.parse(readFileSync(join(import.meta.dirname, "fixtures", `${name}.json`), "utf-8"))
+}
+
+export function createTestLogger(): Logger {
+    return new Logger(false)
+}
+
+/**
+ * A tool call and its output, used to build request bodies in any format.
+ */
+export interface ToolCallSpec {
+    id: string
+    name: string
+    output: string
+}
+
+/**
+ * Builds a request body in the given format with one assistant tool call and one
+ * tool result per spec, in order, between a user prompt and a final user message.
+ */
+export function buildBody(format: FormatName, calls: ToolCallSpec[]): any {
+    switch (format) {
+        case "openai-chat":
+            return {
+                model: "gpt-4o",
+                messages: [
+                    { role: "system", content: "system prompt" },
+                    { role: "user", content: "start" },
+                    ...calls.flatMap(call => [
+                        {
+                            role: "assistant",
+                            content: null,
+                            tool_calls: [{ id: call.id, type: "function", function: { name: call.name, arguments: "{}" } }]
+                        },
+                        { role: "tool", tool_call_id: call.id, content: call.output }
+                    ]),
+                    { role: "user", content: "continue" }
+                ]
+            }
+
+        case "openai-responses":
+            return {
+                model: "gpt-5",
+                input: [
+                    { role: "user", content: [{ type: "input_text", text: "start" }] },
+                    ...calls.flatMap(call => [
+                        { type: "function_call", call_id: call.id, name: call.name, arguments: "{}" },
+                        { type: "function_call_output", call_id: call.id, output: call.output }
+                    ])
+                ]
+            }
+
+        case "anthropic":
+            return {
+                model: "claude-sonnet-4-5",
+                system: "system prompt",
+                messages: [
+                    { role: "user", content: [{ type: "text", text: "start" }] },
+                    ...calls.flatMap(call => [
+                        { role: "assistant", content: [{ type: "tool_use", id: call.id, name: call.name, input: {} }] },
+                        { role: "user", content: [{ type: "tool_result", tool_use_id: call.id, content: call.output }] }
+                    ]),
+                    { role: "user", content: [{ type: "text", text: "continue" }] }
+                ]
+            }
+
+        case "gemini":
+            return {
+                contents: [
+                    { role: "user", parts: [{ text: "start" }] },
+                    ...calls.flatMap(call => [
+                        { role: "model", parts: [{ functionCall: { name: call.name, args: {} } }] },
+                        {
+                            role: "user",
+                            parts: [{ functionResponse: { name: call.name, response: { name: call.name, content: call.output } } }]
+                        }
+                    ])
+                ]
+            }
+
+        case "bedrock":
+            return {
+                system: [{ text: "system prompt" }],
+                inferenceConfig: { maxTokens: 1024 },
+                messages: [
+                    { role: "user", content: [{ text: "start" }] },
+                    ...calls.flatMap(call => [
+                        { role: "assistant", content: [{ toolUse: { toolUseId: call.id, name: call.name, input: {} } }] },
+                        { role: "user", content: [{ toolResult: { toolUseId: call.id, content: [{ text: call.output }] } }] }
+                    ]),
+                    { role: "user", content: [{ text: "continue" }] }
+                ]
+            }
+    }
+}
+
+/**
+ * Builds the OpenCode message history matching a set of tool calls, as returned
+ * by client.session.messages. Used to build the Gemini correlation.
+ */
+export function buildSessionMessages(calls: ToolCallSpec[]): any[] {
+    return [{
+        info: { id: "msg_1", role: "assistant" },
+        parts: calls.map(call => ({
+            type: "tool",
+            callID: call.id,
+            tool: call.name,
+            state: { status: "completed", input: {}, output: call.output }
+        }))
+    }]
+}
+
+export interface StubClientOptions {
+    /** Maps session ID to its parent session ID, for subagent sessions */
+    parents?: Record<string, string>
+    /** Maps session ID to its message history */
+    messages?: Record<string, any[]>
+    /** Data returned by session.prompt */
+    promptResponse?: any
+    /** Makes session.messages ignore the `before` cursor, like servers that predate it */
+    ignoresCursor?: boolean
+}
+
+/**
+ * A stand-in for the OpenCode SDK client. Records every call it receives.
+ */
+export function createStubClient(options: StubClientOptions = {}) {
+    const calls: Array<{ method: string, args: any }> = []
+    let created = 0
+
+    return {
+        calls,
+        session: {
+            async get(args: { path: { id: string } }) {
+                calls.push({ method: "session.get", args })
+                return { data: { id: args.path.id, parentID: options.parents?.[args.path.id] } }
+            },
+            async messages(args: { path: { id: string }, query?: { limit?: number, before?: string } }) {
+                calls.push({ method: "session.messages", args })
+                let messages: any[] = options.messages?.[args.path.id] ?? []
+                const before = options.ignoresCursor ? undefined : args.query?.before
+                if (before) messages = messages.slice(0, messages.findIndex(m => m.info?.id === before))
+                if (args.query?.limit) messages = messages.slice(-args.query.limit)
+                return { data: messages }
+            },
+            async prompt(args: any) {
+                calls.push({ method: "session.prompt", args })
+                return { data: options.promptResponse ?? {} }
+            },
+            async create(args: any) {
+                calls.push({ method: "session.create", args })
+                return { data: { id: `ses_created_${++created}` } }
+            },
+            async delete(args: { path: { id: string } }) {
+                calls.push({ method: "session.delete", args })
+                return { data: true }
+            },
+            async abort(args: { path: { id: string } }) {
+                calls.push({ method: "session.abort", args })
+                return { data: true }
+            }
+        },
+        tui: {
+            async showToast(args: any) {
+                calls.push({ method: "tui.showToast", args })
+                return { data: true }
+            }
+        }
+    }
+}
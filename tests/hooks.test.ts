@@ -0,0 +1,166 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { createChatParamsHandler, createEventHandler, fetchSessionMessages } from "../lib/hooks"
+import { createPluginState } from "../lib/state"
+import { attributeRequest } from "../lib/fetch-wrapper/attribution"
+import { buildSessionMessages, createStubClient, createTestLogger } from "./helpers"
+
+function chatParamsInput(sessionID: string, providerID: string, modelID: string, agent = "build") {
+    return {
+        sessionID,
+        agent,
+        model: { id: modelID },
+        provider: { info: { id: providerID } },
+        message: {}
+    }
+}
+
+describe("createChatParamsHandler", () => {
+    it("records the session, its model and agent", async () => {
+        const state = createPluginState()
+        const handler = createChatParamsHandler(createStubClient(), state, createTestLogger())
+
+        await handler(chatParamsInput("ses_primary", "openai", "gpt-4o"), {})
+
+        assert.equal(state.lastSeenSessionId, "ses_primary")
+        assert.deepEqual(state.model.get("ses_primary"), { providerID: "openai", modelID: "gpt-4o" })
+        assert.equal(state.sessionAgents.get("ses_primary"), "build")
+        assert.equal(state.pendingRequests.length, 1)
+    })
+
+    it("records the context and output limits of the model", async () => {
+        const state = createPluginState()
+        const handler = createChatParamsHandler(createStubClient(), state, createTestLogger())
+        const input = chatParamsInput("ses_primary", "anthropic", "claude-sonnet-4-5")
+
+        await handler({ ...input, model: { id: "claude-sonnet-4-5", limit: { context: 1000000, output: 64000 } } }, {})
+
+        assert.deepEqual(state.model.get("ses_primary")?.limit, { context: 1000000, output: 64000 })
+    })
+
+    it("checks each session for a parent only once", async () => {
+        const state = createPluginState()
+        const client = createStubClient({ parents: { ses_child: "ses_primary" } })
+        const handler = createChatParamsHandler(client, state, createTestLogger())
+
+        await handler(chatParamsInput("ses_primary", "openai", "gpt-4o"), {})
+        await handler(chatParamsInput("ses_child", "openai", "gpt-4o", "explore"), {})
+        await handler(chatParamsInput("ses_child", "openai", "gpt-4o", "explore"), {})
+
+        assert.deepEqual([...state.subagentSessions], ["ses_child"])
+        assert.equal(client.calls.filter(c => c.method === "session.get").length, 2)
+    })
+
+    it("queues calls so concurrent sessions are attributed to their own requests", async () => {
+        const state = createPluginState()
+        const handler = createChatParamsHandler(createStubClient(), state, createTestLogger())
+
+        await handler(chatParamsInput("ses_one", "anthropic", "claude-sonnet-4-5"), {})
+        await handler(chatParamsInput("ses_two", "openai", "gpt-4o"), {})
+
+        const first = attributeRequest(state, { model: "claude-sonnet-4-5" }, "https://api.anthropic.com/v1/messages", {}, [])
+        assert.equal(first.sessionId, "ses_one")
+        assert.equal(first.source, "queue")
+    })
+
+    it("does not reuse a consumed call for a request of no known session", async () => {
+        const state = createPluginState()
+        const handler = createChatParamsHandler(createStubClient(), state, createTestLogger())
+
+        await handler(chatParamsInput("ses_one", "anthropic", "claude-sonnet-4-5"), {})
+
+        const url = "https://api.anthropic.com/v1/messages"
+        assert.equal(attributeRequest(state, { model: "claude-sonnet-4-5" }, url, {}, []).sessionId, "ses_one")
+        assert.deepEqual(attributeRequest(state, { model: "claude-sonnet-4-5" }, url, {}, []), { sessionId: null, source: "none" })
+        // A follow-up fetch of the same session is still matched to its call
+        const followUp = attributeRequest(state, { model: "claude-sonnet-4-5" }, url, { "x-opencode-session": "ses_one" }, [])
+        assert.equal(followUp.agent, "build")
+    })
+
+    it("leaves requests of no known session unattributed instead of guessing the last one seen", async () => {
+        const state = createPluginState()
+        const handler = createChatParamsHandler(createStubClient(), state, createTestLogger())
+
+        await handler(chatParamsInput("ses_one", "anthropic", "claude-sonnet-4-5"), {})
+
+        const other = attributeRequest(state, { model: "gpt-4o" }, "https://api.openai.com/v1/chat/completions", {}, [])
+        assert.deepEqual(other, { sessionId: null, source: "none" })
+    })
+
+    it("builds the Gemini correlation from the session's full history", async () => {
+        const state = createPluginState()
+        const messages = buildSessionMessages([
+            { id: "call_1", name: "read", output: "a" },
+            { id: "call_2", name: "read", output: "b" }
+        ])
+        const client = createStubClient({ messages: { ses_gemini: messages } })
+        const handler = createChatParamsHandler(client, state, createTestLogger())
+
+        await handler(chatParamsInput("ses_gemini", "google", "gemini-2.5-pro"), {})
+
+        const mapping = state.googleToolCallMapping.get("ses_gemini")
+        assert.ok(mapping)
+        assert.equal(mapping.byPosition.get("read:0"), "call_1")
+        assert.equal(mapping.byPosition.get("read:1"), "call_2")
+    })
+
+    it("does not fetch history for other providers", async () => {
+        const state = createPluginState()
+        const client = createStubClient()
+        const handler = createChatParamsHandler(client, state, createTestLogger())
+
+        await handler(chatParamsInput("ses_primary", "anthropic", "claude-sonnet-4-5"), {})
+
+        assert.equal(client.calls.some(c => c.method === "session.messages"), false)
+        assert.equal(state.googleToolCallMapping.size, 0)
+    })
+})
+
+describe("fetchSessionMessages", () => {
+    const history = Array.from({ length: 450 }, (_, i) => ({ info: { id: `msg_${i}`, role: "user" }, parts: [] }))
+
+    it("pages backwards through a long history and returns it oldest first", async () => {
+        const client = createStubClient({ messages: { ses_long: history } })
+
+        const messages = await fetchSessionMessages(client, "ses_long")
+
+        assert.deepEqual(messages.map(m => m.info.id), history.map(m => m.info.id))
+        assert.deepEqual(client.calls.map(c => c.args.query), [
+            { limit: 200 },
+            { limit: 200, before: "msg_250" },
+            { limit: 200, before: "msg_50" }
+        ])
+    })
+
+    it("stops after one page when the history fits in it", async () => {
+        const client = createStubClient({ messages: { ses_short: history.slice(0, 200) } })
+
+        const messages = await fetchSessionMessages(client, "ses_short")
+
+        assert.equal(messages.length, 200)
+        // A full page may have more before it: the empty page confirms the end
+        assert.equal(client.calls.length, 2)
+    })
+
+    it("reads the history with one unlimited call when the server ignores the cursor", async () => {
+        const client = createStubClient({ messages: { ses_old: history }, ignoresCursor: true })
+
+        const messages = await fetchSessionMessages(client, "ses_old")
+
+        assert.deepEqual(messages.map(m => m.info.id), history.map(m => m.info.id))
+        assert.deepEqual(client.calls.at(-1)?.args, { path: { id: "ses_old" } })
+    })
+})
+
+describe("createEventHandler", () => {
+    it("passes deleted sessions to onDeleted", async () => {
+        const deleted: string[] = []
+        const onEvent = createEventHandler(createStubClient(), createPluginState(), createTestLogger(), undefined, undefined, sessionId => {
+            deleted.push(sessionId)
+        })
+
+        await onEvent({ event: { type: "session.deleted", properties: { info: { id: "ses_gone" } } } })
+
+        assert.deepEqual(deleted, ["ses_gone"])
+    })
+})
@@ -0,0 +1,109 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { InterceptorChain } from "../lib/fetch-wrapper/interceptor-chain"
+import { defaultConfig, type PluginConfig } from "../lib/config"
+import { detectFormat, replaceToolOutput, type RequestInterceptor } from "../lib/fetch-wrapper"
+import { createPluginState, type PluginState } from "../lib/state"
+import { buildBody, createStubClient, createTestLogger } from "./helpers"
+
+const SESSION_ID = "ses_chain"
+
+function createContext(interceptors: PluginConfig["interceptors"] = {}) {
+    const config: PluginConfig = { ...structuredClone(defaultConfig), interceptors }
+    return { state: createPluginState(), logger: createTestLogger(), client: createStubClient(), config, sessionId: SESSION_ID }
+}
+
+/**
+ * An interceptor that appends its name to the first tool output and records that it ran.
+ */
+function appending(name: string, ran: string[], options: { stop?: boolean } = {}): RequestInterceptor {
+    return (body, format, _dataArray, toolOutputs, _url, ctx) => {
+        ran.push(name)
+        const [output] = toolOutputs
+        replaceToolOutput(body, format, output.id, `${output.content}+${name}`, ctx.state, ctx.sessionId)
+        return { body, modified: true, stop: options.stop }
+    }
+}
+
+async function run(chain: InterceptorChain, ctx: ReturnType<typeof createContext>) {
+    const body = buildBody("openai-chat", [{ id: "call_1", name: "read", output: "out" }])
+    const format = detectFormat(body)!
+    const result = await chain.toInterceptor()(body, format, body.messages, format.extractToolOutputs(body.messages, ctx.state, SESSION_ID), "", ctx)
+    return { ...result, original: body, contents: extractContents(result.body, ctx.state) }
+}
+
+function extractContents(body: any, state: PluginState): (string | undefined)[] {
+    const format = detectFormat(body)!
+    return format.extractToolOutputs(format.getDataArray(body)!, state, SESSION_ID).map(o => o.content)
+}
+
+describe("InterceptorChain", () => {
+    it("runs interceptors by priority, then registration order, each on the previous result", async () => {
+        const ran: string[] = []
+        const chain = new InterceptorChain()
+            .register("late", appending("late", ran), 200)
+            .register("first", appending("first", ran), 10)
+            .register("second", appending("second", ran), 10)
+
+        const result = await run(chain, createContext())
+
+        assert.deepEqual(ran, ["first", "second", "late"])
+        assert.deepEqual(result.contents, ["out+first+second+late"])
+        assert.equal(result.modified, true)
+    })
+
+    it("applies config overrides to disable and re-prioritize interceptors", async () => {
+        const ran: string[] = []
+        const chain = new InterceptorChain()
+            .register("a", appending("a", ran), 10)
+            .register("b", appending("b", ran), 20)
+            .register("c", appending("c", ran), 30)
+
+        await run(chain, createContext({ a: { priority: 100 }, b: { enabled: false } }))
+
+        assert.deepEqual(ran, ["c", "a"])
+        assert.throws(() => chain.register("a", appending("a", ran)), /already registered/)
+    })
+
+    it("stops the chain when an interceptor asks to", async () => {
+        const ran: string[] = []
+        const chain = new InterceptorChain()
+            .register("stopper", appending("stopper", ran, { stop: true }), 10)
+            .register("after", appending("after", ran), 20)
+
+        const result = await run(chain, createContext())
+
+        assert.deepEqual(ran, ["stopper"])
+        assert.deepEqual(result.contents, ["out+stopper"])
+    })
+
+    it("discards the partial edits of an interceptor that fails and carries on", async () => {
+        const ran: string[] = []
+        const failing: RequestInterceptor = (body, format, _dataArray, toolOutputs, _url, ctx) => {
+            ran.push("failing")
+            replaceToolOutput(body, format, toolOutputs[0].id, "half-done", ctx.state, ctx.sessionId)
+            throw new Error("boom")
+        }
+        const chain = new InterceptorChain()
+            .register("before", appending("before", ran), 10)
+            .register("failing", failing, 20)
+            .register("after", appending("after", ran), 30)
+
+        const result = await run(chain, createContext())
+
+        assert.deepEqual(ran, ["before", "failing", "after"])
+        assert.deepEqual(result.contents, ["out+before+after"])
+        // The caller's body is never edited in place
+        assert.deepEqual(extractContents(result.original, createPluginState()), ["out"])
+    })
+
+    it("returns the original body when nothing was modified", async () => {
+        const chain = new InterceptorChain()
+            .register("noop", body => ({ body, modified: false }))
+
+        const result = await run(chain, createContext())
+
+        assert.equal(result.modified, false)
+        assert.equal(result.body, result.original)
+    })
+})
@@ -0,0 +1,171 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { readFileSync } from "fs"
+import { join } from "path"
+import {
+    createStreamAccumulator,
+    observeResponse,
+    readEventStream,
+    readSseEvents,
+    summarizeJsonResponse,
+    type ResponseSummary,
+    type ResponseToolCall,
+    type ResponseUsage
+} from "../lib/fetch-wrapper/response"
+import { anthropicFormat, bedrockFormat, geminiFormat, openaiChatFormat, openaiResponsesFormat } from "../lib/fetch-wrapper/formats"
+import type { FormatDescriptor } from "../lib/fetch-wrapper"
+import { defaultConfig } from "../lib/config"
+import { createPluginState } from "../lib/state"
+import { createStubClient, createTestLogger, FORMAT_NAMES, type FormatName } from "./helpers"
+
+const FORMATS: Record<FormatName, FormatDescriptor> = {
+    "openai-chat": openaiChatFormat,
+    "openai-responses": openaiResponsesFormat,
+    "anthropic": anthropicFormat,
+    "gemini": geminiFormat,
+    "bedrock": bedrockFormat
+}
+
+const ARGUMENTS = { filePath: "src/index.ts" }
+
+/**
+ * What every fixture response holds: one read call, 1200 prompt tokens of which
+ * 1024 were read from the cache, and 25 output tokens.
+ */
+const EXPECTED: Record<FormatName, { usage: ResponseUsage, toolCalls: ResponseToolCall[] }> = {
+    "openai-chat": {
+        usage: { inputTokens: 1200, outputTokens: 25, cacheReadTokens: 1024 },
+        toolCalls: [{ id: "call_read_1", name: "read", arguments: ARGUMENTS }]
+    },
+    "openai-responses": {
+        usage: { inputTokens: 1200, outputTokens: 25, cacheReadTokens: 1024 },
+        toolCalls: [{ id: "call_read_1", name: "read", arguments: ARGUMENTS }]
+    },
+    "anthropic": {
+        usage: { inputTokens: 1200, outputTokens: 25, cacheReadTokens: 1024, cacheWriteTokens: 0 },
+        toolCalls: [{ id: "toolu_read_1", name: "read", arguments: ARGUMENTS }]
+    },
+    "gemini": {
+        usage: { inputTokens: 1200, outputTokens: 25, cacheReadTokens: 1024 },
+        toolCalls: [{ id: undefined, name: "read", arguments: ARGUMENTS }]
+    },
+    "bedrock": {
+        usage: { inputTokens: 1200, outputTokens: 25, cacheReadTokens: 1024, cacheWriteTokens: 0 },
+        toolCalls: [{ id: "tooluse_read_1", name: "read", arguments: ARGUMENTS }]
+    }
+}
+
+function readResponseFixture(file: string): Buffer {
+    return readFileSync(join(import.meta.dirname, "fixtures", "responses", file))
+}
+
+/**
+ * Streams bytes in small chunks, so events and frames are split across reads.
+ */
+function chunkedStream(bytes: Uint8Array, chunkSize = 7): ReadableStream<Uint8Array> {
+    let offset = 0
+    return new ReadableStream({
+        pull(controller) {
+            if (offset >= bytes.length) {
+                controller.close()
+                return
+            }
+            controller.enqueue(bytes.slice(offset, offset + chunkSize))
+            offset += chunkSize
+        }
+    })
+}
+
+/**
+ * Encodes events as AWS event stream frames. CRCs are left as zeros: the reader
+ * does not check them.
+ */
+function encodeEventStream(events: { eventType: string, payload: any }[]): Uint8Array {
+    const encoder = new TextEncoder()
+    const frames = events.map(({ eventType, payload }) => {
+        const headers = Buffer.concat(Object.entries({
+            ":event-type": eventType,
+            ":content-type": "application/json",
+            ":message-type": "event"
+        }).map(([name, value]) => {
+            const valueBytes = encoder.encode(value)
+            const header = Buffer.alloc(1 + name.length + 3 + valueBytes.length)
+            header.writeUInt8(name.length, 0)
+            header.write(name, 1)
+            header.writeUInt8(7, 1 + name.length)
+            header.writeUInt16BE(valueBytes.length, 2 + name.length)
+            header.set(valueBytes, 4 + name.length)
+            return header
+        }))
+        const body = encoder.encode(JSON.stringify(payload))
+        const frame = Buffer.alloc(12 + headers.length + body.length + 4)
+        frame.writeUInt32BE(frame.length, 0)
+        frame.writeUInt32BE(headers.length, 4)
+        frame.set(headers, 12)
+        frame.set(body, 12 + headers.length)
+        return frame
+    })
+    return new Uint8Array(Buffer.concat(frames))
+}
+
+function streamFixture(name: FormatName): ReadableStream<Uint8Array> {
+    if (name === "bedrock") {
+        return chunkedStream(encodeEventStream(JSON.parse(readResponseFixture("bedrock.events.json").toString("utf-8"))))
+    }
+    return chunkedStream(readResponseFixture(`${name}.sse`))
+}
+
+describe("summarizeJsonResponse", () => {
+    for (const name of FORMAT_NAMES) {
+        it(`extracts usage and tool calls (${name})`, () => {
+            const json = JSON.parse(readResponseFixture(`${name}.json`).toString("utf-8"))
+            assert.deepEqual(summarizeJsonResponse(FORMATS[name], json), EXPECTED[name])
+        })
+    }
+})
+
+describe("streamed responses", () => {
+    for (const name of FORMAT_NAMES) {
+        it(`accumulates usage and tool calls across chunked events (${name})`, async () => {
+            const accumulator = createStreamAccumulator(FORMATS[name])
+            const read = name === "bedrock" ? readEventStream : readSseEvents
+            await read(streamFixture(name), (data, eventType) => accumulator.onEvent(data, eventType))
+
+            assert.deepEqual(accumulator.result(), EXPECTED[name])
+        })
+    }
+
+    it("reads SSE event types and skips [DONE] and non-JSON events", async () => {
+        const events: [string | undefined, any][] = []
+        const text = "event: ping\ndata: {\"n\":1}\n\n: comment\n\ndata: not json\n\ndata: [DONE]\n\ndata: {\"n\":2}"
+        await readSseEvents(chunkedStream(new TextEncoder().encode(text), 3), (data, eventType) => events.push([eventType, data]))
+
+        assert.deepEqual(events, [["ping", { n: 1 }], [undefined, { n: 2 }]])
+    })
+})
+
+describe("observeResponse", () => {
+    it("hands the caller the response untouched and summarizes the copy", async () => {
+        const sse = readResponseFixture("anthropic.sse")
+        const response = new Response(chunkedStream(sse, 64), { headers: { "content-type": "text/event-stream" } })
+        const ctx = { state: createPluginState(), logger: createTestLogger(), client: createStubClient(), config: defaultConfig, sessionId: "ses_response" }
+
+        const summary = await new Promise<ResponseSummary>(resolve => {
+            const observed = observeResponse(response, anthropicFormat, "https://api.anthropic.com/v1/messages", 1100, ctx, async s => resolve(s))
+            observed.text().then(text => assert.equal(text, sse.toString("utf-8")))
+        })
+
+        assert.equal(summary.streamed, true)
+        assert.equal(summary.estimatedInputTokens, 1100)
+        assert.deepEqual({ usage: summary.usage, toolCalls: summary.toolCalls }, EXPECTED.anthropic)
+    })
+
+    it("leaves error responses and unknown content types alone", () => {
+        const ctx = { state: createPluginState(), logger: createTestLogger(), client: createStubClient(), config: defaultConfig, sessionId: null }
+        const failed = new Response("{}", { status: 500, headers: { "content-type": "application/json" } })
+        const html = new Response("<html>", { headers: { "content-type": "text/html" } })
+
+        assert.equal(observeResponse(failed, anthropicFormat, "", undefined, ctx, async () => assert.fail()), failed)
+        assert.equal(observeResponse(html, anthropicFormat, "", undefined, ctx, async () => assert.fail()), html)
+    })
+})
@@ -0,0 +1,121 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import fc from "fast-check"
+import { detectFormat, replaceToolOutput } from "../lib/fetch-wrapper"
+import { buildGeminiToolCallMapping } from "../lib/fetch-wrapper/gemini-correlation"
+import { createPluginState, type PluginState } from "../lib/state"
+import { buildBody, buildSessionMessages, FORMAT_NAMES, loadFixture, type FormatName, type ToolCallSpec } from "./helpers"
+
+const SESSION_ID = "ses_roundtrip"
+
+const toolCallsArbitrary: fc.Arbitrary<ToolCallSpec[]> = fc.uniqueArray(
+    fc.record({
+        id: fc.stringMatching(/^call_[A-Za-z0-9]{1,12}$/),
+        name: fc.constantFrom("read", "bash", "grep", "glob", "webfetch"),
+        output: fc.string({ unit: "grapheme", maxLength: 200 })
+    }),
+    { minLength: 1, maxLength: 12, selector: call => call.id.toLowerCase() }
+)
+
+/**
+ * Creates state for a body. For Gemini, the session's history is correlated the
+ * way chat.params does it, so outputs resolve to their real call IDs.
+ */
+function createState(format: FormatName, calls: ToolCallSpec[]): PluginState {
+    const state = createPluginState()
+    if (format === "gemini") {
+        state.googleToolCallMapping.set(SESSION_ID, buildGeminiToolCallMapping(buildSessionMessages(calls)))
+    }
+    return state
+}
+
+function extract(body: any, state: PluginState) {
+    const format = detectFormat(body)!
+    return format.extractToolOutputs(format.getDataArray(body)!, state, SESSION_ID)
+}
+
+describe("extractToolOutputs / replaceToolOutput round trip", () => {
+    for (const name of FORMAT_NAMES) {
+        describe(name, () => {
+            it("extracts every tool output with its ID and content, in order", () => {
+                fc.assert(fc.property(toolCallsArbitrary, calls => {
+                    const body = buildBody(name, calls)
+                    assert.equal(detectFormat(body)?.name, name)
+
+                    const outputs = extract(body, createState(name, calls))
+                    assert.deepEqual(outputs.map(o => o.id), calls.map(c => c.id.toLowerCase()))
+                    assert.deepEqual(outputs.map(o => o.content), calls.map(c => c.output))
+                }))
+            })
+
+            it("replaces exactly the chosen outputs and leaves the rest untouched", () => {
+                fc.assert(fc.property(
+                    toolCallsArbitrary.chain(calls => fc.tuple(
+                        fc.constant(calls),
+                        fc.subarray(calls),
+                        fc.string({ maxLength: 80 })
+                    )),
+                    ([calls, replaced, replacement]) => {
+                        const body = buildBody(name, calls)
+                        const state = createState(name, calls)
+                        const format = detectFormat(body)!
+
+                        for (const call of replaced) {
+                            // IDs are matched case-insensitively
+                            assert.equal(replaceToolOutput(body, format, call.id.toUpperCase(), replacement, state, SESSION_ID), true)
+                        }
+
+                        const replacedIds = new Set(replaced.map(c => c.id.toLowerCase()))
+                        const outputs = extract(body, state)
+                        assert.deepEqual(outputs.map(o => o.id), calls.map(c => c.id.toLowerCase()))
+                        for (const [i, call] of calls.entries()) {
+                            const expected = replacedIds.has(call.id.toLowerCase()) ? replacement : call.output
+                            assert.equal(outputs[i].content, expected)
+                        }
+                    }
+                ))
+            })
+
+            it("leaves the body unchanged when the ID is unknown", () => {
+                fc.assert(fc.property(toolCallsArbitrary, calls => {
+                    const body = buildBody(name, calls)
+                    const before = structuredClone(body)
+
+                    const replaced = replaceToolOutput(body, detectFormat(body)!, "call_not_in_body", "x", createState(name, calls), SESSION_ID)
+                    assert.equal(replaced, false)
+                    assert.deepEqual(body, before)
+                }))
+            })
+
+            it("only changes tool output content in the fixture", () => {
+                const body = loadFixture(name)
+                const format = detectFormat(body)!
+                const state = createPluginState()
+                const before = structuredClone(body)
+
+                for (const output of extract(body, state)) {
+                    replaceToolOutput(body, format, output.id, "[pruned]", state, SESSION_ID)
+                }
+
+                assert.deepEqual(extract(body, state).map(o => o.content), extract(before, state).map(() => "[pruned]"))
+                // Everything outside the data array is left alone
+                for (const key of Object.keys(before)) {
+                    if (format.getDataArray(before) === before[key]) continue
+                    assert.deepEqual(body[key], before[key], `${key} changed`)
+                }
+                assert.equal(format.getDataArray(body)!.length, format.getDataArray(before)!.length)
+            })
+        })
+    }
+
+    it("resolves Gemini IDs by content when parallel calls are answered out of order", () => {
+        const calls: ToolCallSpec[] = [
+            { id: "call_a", name: "read", output: "contents of a" },
+            { id: "call_b", name: "read", output: "contents of b" }
+        ]
+        const body = buildBody("gemini", [calls[1], calls[0]])
+        const outputs = extract(body, createState("gemini", calls))
+
+        assert.deepEqual(outputs.map(o => o.id), ["call_b", "call_a"])
+    })
+})
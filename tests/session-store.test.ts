@@ -0,0 +1,205 @@
+import { describe, it, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtemp, readdir, rm, utimes, writeFile } from "fs/promises"
+import { existsSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { SessionStore, type PersistenceConfig } from "../lib/session-store"
+import { createSessionStats } from "../lib/core/janitor"
+import { createCacheState } from "../lib/core/cache"
+import { buildGeminiToolCallMapping } from "../lib/fetch-wrapper/gemini-correlation"
+import { createPluginState, forgetSession, type PluginState } from "../lib/state"
+import { buildSessionMessages, createTestLogger } from "./helpers"
+
+const SESSION_ID = "ses_persisted"
+
+function populate(state: PluginState, prunedIds: string[], sessionId = SESSION_ID): void {
+    state.prunedIds.set(sessionId, prunedIds)
+    state.stats.set(sessionId, { ...createSessionStats(), totalToolsPruned: prunedIds.length, totalTokensSaved: 1234 })
+    state.cache.set(sessionId, { ...createCacheState(), appliedIds: [...prunedIds], lastMessageCount: 7 })
+    state.trackedOutputs.set(sessionId, new Map(prunedIds.map(id => [id, { toolName: "read", tokens: 100 }])))
+    state.summaries.set(prunedIds[0], "[Summary] first output")
+    state.staleFileReads.add(prunedIds[prunedIds.length - 1])
+    state.googleToolCallMapping.set(sessionId, buildGeminiToolCallMapping(buildSessionMessages([
+        { id: "call_g", name: "read", output: "x" }
+    ])))
+}
+
+describe("SessionStore", () => {
+    let directory: string
+    let config: PersistenceConfig
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "dcp-sessions-"))
+        config = { enabled: true, directory, maxAgeDays: 30, maxSessions: 200 }
+    })
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true })
+    })
+
+    it("restores a saved session into fresh state", async () => {
+        const saved = createPluginState()
+        populate(saved, ["call_a", "call_b"])
+        await new SessionStore(directory, config, createTestLogger()).scheduleSave(saved, SESSION_ID)
+
+        const restored = createPluginState()
+        const found = await new SessionStore(directory, config, createTestLogger()).restore(restored, SESSION_ID)
+
+        assert.equal(found, true)
+        assert.deepEqual(restored.prunedIds.get(SESSION_ID), ["call_a", "call_b"])
+        assert.deepEqual(restored.cache.get(SESSION_ID)?.appliedIds, ["call_a", "call_b"])
+        assert.equal(restored.stats.get(SESSION_ID)?.totalTokensSaved, 1234)
+        assert.equal(restored.trackedOutputs.get(SESSION_ID)?.get("call_b")?.tokens, 100)
+        assert.equal(restored.summaries.get("call_a"), "[Summary] first output")
+        assert.deepEqual(Array.from(restored.staleFileReads), ["call_b"])
+        assert.equal(restored.googleToolCallMapping.get(SESSION_ID)?.byPosition.get("read:0"), "call_g")
+        assert.equal(restored.toolCallSessions.get("call_a"), SESSION_ID)
+    })
+
+    it("merges the pruned IDs of instances saving the same session", async () => {
+        const first = createPluginState()
+        const second = createPluginState()
+        populate(first, ["call_a"])
+        populate(second, ["call_b"])
+
+        await Promise.all([
+            new SessionStore(directory, config, createTestLogger()).scheduleSave(first, SESSION_ID),
+            new SessionStore(directory, config, createTestLogger()).scheduleSave(second, SESSION_ID)
+        ])
+
+        const restored = createPluginState()
+        await new SessionStore(directory, config, createTestLogger()).restore(restored, SESSION_ID)
+        assert.deepEqual(restored.prunedIds.get(SESSION_ID)?.sort(), ["call_a", "call_b"])
+        // Only the session file is left: no lock or temporary files
+        assert.deepEqual(await readdir(directory), [`${SESSION_ID}.json`])
+    })
+
+    it("coalesces saves requested while one is waiting", async () => {
+        const state = createPluginState()
+        populate(state, ["call_a"])
+        const store = new SessionStore(directory, config, createTestLogger())
+
+        const saves = [store.scheduleSave(state, SESSION_ID), store.scheduleSave(state, SESSION_ID)]
+        assert.equal(saves[0], saves[1])
+        await Promise.all(saves)
+    })
+
+    it("evicts sessions past their age or beyond the session limit", async () => {
+        const old = Date.now() / 1000 - 60 * 24 * 60 * 60
+        await writeFile(join(directory, "ses_old.json"), "{}")
+        await utimes(join(directory, "ses_old.json"), old, old)
+        for (let i = 0; i < 3; i++) {
+            await writeFile(join(directory, `ses_${i}.json`), "{}")
+            await utimes(join(directory, `ses_${i}.json`), Date.now() / 1000 - i, Date.now() / 1000 - i)
+        }
+
+        const store = new SessionStore(directory, { ...config, maxSessions: 2 }, createTestLogger())
+        assert.equal(await store.evict(), 2)
+        assert.deepEqual((await readdir(directory)).sort(), ["ses_0.json", "ses_1.json"])
+    })
+
+    it("ignores corrupt files and unsafe session IDs", async () => {
+        await writeFile(join(directory, `${SESSION_ID}.json`), "{ not json")
+        const store = new SessionStore(directory, config, createTestLogger())
+
+        assert.equal(await store.restore(createPluginState(), SESSION_ID), false)
+        assert.equal(await store.restore(createPluginState(), "../../etc/passwd"), false)
+    })
+})
+
+describe("dropping sessions from memory", () => {
+    let directory: string
+    let config: PersistenceConfig
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), "dcp-sessions-"))
+        config = { enabled: true, directory, maxAgeDays: 30, maxSessions: 2 }
+    })
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true })
+    })
+
+    /** Fills a session's per-session and per-call entries, as its requests and tool calls do */
+    function useSession(state: PluginState, sessionId: string): void {
+        const callId = `call_${sessionId}`
+        populate(state, [callId], sessionId)
+        state.model.set(sessionId, { providerID: "anthropic", modelID: "claude-sonnet-4-5" })
+        state.checkedSessions.add(sessionId)
+        state.sessionAgents.set(sessionId, "build")
+        state.pendingRequests.push({ sessionId, enqueuedAt: 0, consumed: true })
+        state.toolCallSessions.set(callId, sessionId)
+        state.toolParameters.set(callId, { tool: "read", parameters: { filePath: "/work/a.ts" } })
+        state.pins.set(`pin_${sessionId}`, { sessionId, pinnedAt: 0 })
+    }
+
+    function heldFor(state: PluginState, sessionId: string): string[] {
+        const callId = `call_${sessionId}`
+        const held: string[] = []
+        for (const [name, value] of Object.entries(state)) {
+            if ((value instanceof Map || value instanceof Set) && value.has(sessionId)) held.push(name)
+            if ((value instanceof Map || value instanceof Set) && value.has(callId)) held.push(name)
+        }
+        if (state.pins.has(`pin_${sessionId}`)) held.push("pins")
+        if (state.pendingRequests.some(r => r.sessionId === sessionId)) held.push("pendingRequests")
+        return held
+    }
+
+    it("forgetSession clears a session's entries and its tool calls', leaving other sessions alone", () => {
+        const state = createPluginState()
+        useSession(state, "ses_a")
+        useSession(state, "ses_b")
+        state.lastSeenSessionId = "ses_a"
+
+        forgetSession(state, "ses_a")
+
+        assert.deepEqual(heldFor(state, "ses_a"), [])
+        assert.ok(heldFor(state, "ses_b").length > 10)
+        assert.equal(state.lastSeenSessionId, null)
+    })
+
+    it("saves and drops the least recently used sessions beyond the limit, restoring them when used again", async () => {
+        const state = createPluginState()
+        const store = new SessionStore(directory, config, createTestLogger())
+        for (const sessionId of ["ses_a", "ses_b", "ses_c"]) {
+            useSession(state, sessionId)
+            await store.touch(state, sessionId)
+        }
+
+        assert.deepEqual(heldFor(state, "ses_a"), [])
+        assert.ok(heldFor(state, "ses_b").length > 0)
+        assert.ok(existsSync(join(directory, "ses_a.json")))
+
+        assert.equal(await store.restore(state, "ses_a"), true)
+        assert.deepEqual(state.prunedIds.get("ses_a"), ["call_ses_a"])
+        assert.equal(state.pins.get("pin_ses_a")?.sessionId, "ses_a")
+    })
+
+    it("drops sessions unused for maxAgeDays", async (t) => {
+        const state = createPluginState()
+        const store = new SessionStore(directory, { ...config, maxSessions: 200 }, createTestLogger())
+        useSession(state, "ses_old")
+        await store.touch(state, "ses_old")
+
+        t.mock.timers.enable({ apis: ["Date"], now: Date.now() + 31 * 24 * 60 * 60 * 1000 })
+        useSession(state, "ses_new")
+        await store.touch(state, "ses_new")
+        t.mock.timers.reset()
+
+        assert.deepEqual(heldFor(state, "ses_old"), [])
+        assert.ok(heldFor(state, "ses_new").length > 0)
+    })
+
+    it("drops a deleted session from memory and disk", async () => {
+        const state = createPluginState()
+        const store = new SessionStore(directory, config, createTestLogger())
+        useSession(state, "ses_gone")
+        await store.scheduleSave(state, "ses_gone")
+
+        await store.delete(state, "ses_gone")
+
+        assert.deepEqual(heldFor(state, "ses_gone"), [])
+        assert.deepEqual(await readdir(directory), [])
+    })
+})
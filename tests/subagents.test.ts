@@ -0,0 +1,78 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { compressSubagentResult, getSubagentPolicy } from "../lib/core/subagents"
+import { createToolExecuteAfterHandler } from "../lib/hooks"
+import { defaultConfig, type PluginConfig } from "../lib/config"
+import { createPluginState } from "../lib/state"
+import { estimateTokens } from "../lib/tokenizer"
+import { createTestLogger } from "./helpers"
+
+const LONG_RESULT = [
+    "## Findings",
+    ...Array.from({ length: 300 }, (_, i) => `- src/module${i}.ts handles part ${i} of the request pipeline`),
+    "## Conclusion",
+    "The bug is in src/module42.ts."
+].join("\n")
+
+function createConfig(compressResult: boolean): PluginConfig {
+    const config = structuredClone(defaultConfig)
+    config.subagents.compressResult = compressResult
+    config.subagents.maxResultTokens = 500
+    return config
+}
+
+describe("compressSubagentResult", () => {
+    it("leaves a result within the limit unchanged", () => {
+        assert.equal(compressSubagentResult("Done: fixed the failing test.", 500), null)
+    })
+
+    it("only collapses whitespace when that is enough", () => {
+        const text = "Summary   \n\n\n\n\nAll tests pass.\t\n" + "detail ".repeat(30)
+
+        assert.equal(compressSubagentResult(text, 60), "Summary\n\nAll tests pass.\n" + "detail ".repeat(29) + "detail")
+    })
+
+    it("cuts the middle of a long result, keeping its head and tail", () => {
+        const compressed = compressSubagentResult(LONG_RESULT, 500)!
+
+        assert.ok(compressed.startsWith("## Findings\n- src/module0.ts"))
+        assert.ok(compressed.endsWith("## Conclusion\nThe bug is in src/module42.ts."))
+        assert.match(compressed, /\n\[\.\.\. subagent result compressed: ~\d+ tokens omitted \.\.\.\]\n/)
+        assert.ok(estimateTokens(compressed) <= 500 + 20)
+    })
+})
+
+describe("subagent result compression in tool.execute.after", () => {
+    async function runHook(config: PluginConfig, tool: string, text: string): Promise<string> {
+        const handler = createToolExecuteAfterHandler(createPluginState(), config, createTestLogger())
+        const output = { title: "", output: text, metadata: {} }
+        await handler({ tool, sessionID: "ses_parent", callID: "call_task" }, output)
+        return output.output
+    }
+
+    it("compresses long task results only when compressResult is on", async () => {
+        assert.equal(await runHook(createConfig(true), "task", LONG_RESULT), compressSubagentResult(LONG_RESULT, 500))
+        assert.equal(await runHook(createConfig(false), "task", LONG_RESULT), LONG_RESULT)
+    })
+
+    it("leaves other tools and short task results alone", async () => {
+        assert.equal(await runHook(createConfig(true), "bash", LONG_RESULT), LONG_RESULT)
+        assert.equal(await runHook(createConfig(true), "task", "Done."), "Done.")
+    })
+})
+
+describe("getSubagentPolicy", () => {
+    it("applies to subagent sessions only, with per-agent policies over the default", () => {
+        const state = createPluginState()
+        const config = structuredClone(defaultConfig)
+        config.subagents.default = "light"
+        config.subagents.agents = { explore: "full", review: "skip" }
+        state.subagentSessions.add("ses_child")
+        state.sessionAgents.set("ses_child", "explore")
+
+        assert.equal(getSubagentPolicy(config, state, "ses_primary", "explore"), null)
+        assert.equal(getSubagentPolicy(config, state, "ses_child"), "full")
+        assert.equal(getSubagentPolicy(config, state, "ses_child", "review"), "skip")
+        assert.equal(getSubagentPolicy(config, state, "ses_child", "general"), "light")
+    })
+})
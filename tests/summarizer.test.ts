@@ -0,0 +1,202 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { Summarizer, createClientSummaryModel, getCachedSummary, parseModelString, type SummaryModel, type SummaryRequest } from "../lib/core/summarizer"
+import { hashContent } from "../lib/fetch-wrapper/gemini-correlation"
+import { Janitor, PRUNED_OUTPUT_PLACEHOLDER } from "../lib/core/janitor"
+import { defaultConfig, type PluginConfig } from "../lib/config"
+import { detectFormat } from "../lib/fetch-wrapper"
+import { createPluginState, type PluginState } from "../lib/state"
+import { buildBody, buildSessionMessages, createStubClient, createTestLogger, type ToolCallSpec } from "./helpers"
+
+const SESSION_ID = "ses_summaries"
+
+const REQUEST: SummaryRequest = {
+    sessionId: SESSION_ID,
+    model: { providerID: "openai", modelID: "gpt-4o-mini" },
+    toolName: "read",
+    content: "file contents",
+    maxTokens: 100
+}
+
+/** A local stand-in for the summarizing model */
+function createFakeModel(reply: (request: SummaryRequest) => string | null = r => `summary of ${r.toolName}`) {
+    const requests: SummaryRequest[] = []
+    const model: SummaryModel = {
+        async summarize(request) {
+            requests.push(request)
+            return reply(request)
+        }
+    }
+    return { model, requests }
+}
+
+function createConfig(): PluginConfig {
+    const config = structuredClone(defaultConfig)
+    config.keepRecentToolOutputs = 0
+    config.cache.enabled = false
+    config.summarization.enabled = true
+    config.summarization.minTokens = 10
+    return config
+}
+
+function largeOutput(label: string): string {
+    return `${label}\n${"content ".repeat(200)}`
+}
+
+describe("Summarizer", () => {
+    it("never summarizes the same content twice", async () => {
+        const state = createPluginState()
+        const { model, requests } = createFakeModel()
+        const summarizer = new Summarizer({ state, logger: createTestLogger(), config: createConfig().summarization, model })
+
+        const content = largeOutput("same")
+        const first = await summarizer.summarizeOutputs(SESSION_ID, [{ id: "call_1", content, metadata: { tool: "read" } }])
+        const second = await summarizer.summarizeOutputs("ses_other", [{ id: "call_2", content, metadata: { tool: "read" } }])
+
+        assert.deepEqual([...first, ...second], ["call_1", "call_2"])
+        assert.equal(requests.length, 1)
+        assert.match(state.summaries.get("call_2")!, /summary of read/)
+    })
+
+    it("skips small outputs and stops calling the model after maxOutputsPerRun", async () => {
+        const state = createPluginState()
+        const { model, requests } = createFakeModel()
+        const config = { ...createConfig().summarization, maxOutputsPerRun: 2 }
+        const summarizer = new Summarizer({ state, logger: createTestLogger(), config, model })
+
+        const summarized = await summarizer.summarizeOutputs(SESSION_ID, [
+            { id: "call_small", content: "tiny" },
+            { id: "call_a", content: largeOutput("a") },
+            { id: "call_b", content: largeOutput("b") },
+            { id: "call_c", content: largeOutput("c") }
+        ])
+
+        assert.deepEqual(summarized, ["call_a", "call_b"])
+        assert.equal(requests.length, 2)
+    })
+
+    it("uses the configured model, or the session's own", async () => {
+        const state = createPluginState()
+        state.model.set(SESSION_ID, { providerID: "anthropic", modelID: "claude-sonnet-4-5" })
+        const { model, requests } = createFakeModel()
+        const config = createConfig().summarization
+        const summarizer = new Summarizer({ state, logger: createTestLogger(), config, model })
+
+        await summarizer.summarizeOutputs(SESSION_ID, [{ id: "call_1", content: largeOutput("1") }])
+        config.model = "anthropic/claude-haiku-4-5"
+        await summarizer.summarizeOutputs(SESSION_ID, [{ id: "call_2", content: largeOutput("2") }])
+
+        assert.deepEqual(requests.map(r => r.model?.modelID), ["claude-sonnet-4-5", "claude-haiku-4-5"])
+        assert.deepEqual(parseModelString("openrouter/openai/gpt-4o-mini"), { providerID: "openrouter", modelID: "openai/gpt-4o-mini" })
+    })
+
+    it("aborts a model call that times out", async () => {
+        const state = createPluginState()
+        const signals: AbortSignal[] = []
+        const model: SummaryModel = {
+            summarize(_request, signal) {
+                signals.push(signal)
+                return new Promise(resolve => signal.addEventListener("abort", () => resolve("too late")))
+            }
+        }
+        const config = { ...createConfig().summarization, timeoutSeconds: 0.01 }
+        const summarizer = new Summarizer({ state, logger: createTestLogger(), config, model })
+
+        const summarized = await summarizer.summarizeOutputs(SESSION_ID, [{ id: "call_slow", content: largeOutput("slow") }])
+
+        assert.deepEqual(summarized, [])
+        assert.equal(signals[0].aborted, true)
+        assert.equal(state.summaryCache.size, 0)
+    })
+
+    it("keeps the most recently used summaries once the cache is full", async () => {
+        const state = createPluginState()
+        for (let i = 0; i < 500; i++) {
+            state.summaryCache.set(`hash_${i}`, `summary ${i}`)
+        }
+        const { model } = createFakeModel()
+        const summarizer = new Summarizer({ state, logger: createTestLogger(), config: createConfig().summarization, model })
+
+        assert.equal(getCachedSummary(state, "hash_0"), "summary 0")
+        await summarizer.summarizeOutputs(SESSION_ID, [{ id: "call_new", content: largeOutput("new") }])
+
+        assert.equal(state.summaryCache.size, 500)
+        assert.equal(state.summaryCache.has("hash_0"), true)
+        assert.equal(state.summaryCache.has("hash_1"), false)
+        assert.equal(state.summaryCache.has(hashContent(largeOutput("new"))), true)
+    })
+})
+
+describe("Janitor with a summarizer", () => {
+    async function pruneOnIdle(reply?: (request: SummaryRequest) => string | null) {
+        const calls: ToolCallSpec[] = [
+            { id: "call_read", name: "read", output: largeOutput("file contents") },
+            { id: "call_glob", name: "glob", output: largeOutput("file list") }
+        ]
+        const state: PluginState = createPluginState()
+        const config = createConfig()
+        const logger = createTestLogger()
+        const client = createStubClient({ messages: { [SESSION_ID]: buildSessionMessages(calls) } })
+        const { model } = createFakeModel(reply)
+        const summarizer = new Summarizer({ state, logger, config: config.summarization, model })
+        const janitor = new Janitor({ client, state, logger, config, summarizer })
+
+        const body = buildBody("openai-chat", calls)
+        const format = detectFormat(body)!
+        janitor.trackToolOutputs(SESSION_ID, format.extractToolOutputs(body.messages, state, SESSION_ID))
+        const result = await janitor.runOnIdle(SESSION_ID)
+
+        janitor.applyPruning(SESSION_ID, body, format)
+        return { result, outputs: format.extractToolOutputs(body.messages, state, SESSION_ID) }
+    }
+
+    it("replaces stale outputs with their summary instead of the placeholder", async () => {
+        const { result, outputs } = await pruneOnIdle()
+
+        assert.deepEqual(result?.summarizedIds, ["call_read", "call_glob"])
+        assert.match(outputs[0].content!, /^\[Summary of an earlier read output/)
+        assert.match(outputs[0].content!, /summary of read$/)
+        // Only the difference between the output and its summary counts as saved
+        assert.ok(result!.tokensSaved > 0)
+    })
+
+    it("falls back to the placeholder when the model gives no summary", async () => {
+        const { outputs } = await pruneOnIdle(r => r.toolName === "read" ? null : "globbed files")
+
+        assert.equal(outputs[0].content, PRUNED_OUTPUT_PLACEHOLDER)
+        assert.match(outputs[1].content!, /globbed files/)
+    })
+})
+
+describe("createClientSummaryModel", () => {
+    it("prompts in a child session that is marked internal and deleted afterwards", async () => {
+        const state = createPluginState()
+        const client = createStubClient({ promptResponse: { parts: [{ type: "text", text: "the summary" }] } })
+        const model = createClientSummaryModel(client, state, createTestLogger())
+
+        const summary = await model.summarize(REQUEST, new AbortController().signal)
+
+        assert.equal(summary, "the summary")
+        assert.deepEqual(client.calls.map(c => c.method), ["session.create", "session.prompt", "session.delete"])
+        assert.equal(client.calls[0].args.body.parentID, SESSION_ID)
+        assert.deepEqual(client.calls[1].args.body.model, { providerID: "openai", modelID: "gpt-4o-mini" })
+        assert.equal(state.internalSessions.size, 0)
+    })
+
+    it("aborts the child session when the signal is aborted, and still deletes it", async () => {
+        const state = createPluginState()
+        const client = createStubClient()
+        const controller = new AbortController()
+        client.session.prompt = async (args: any) => {
+            client.calls.push({ method: "session.prompt", args })
+            controller.abort()
+            return { data: {} }
+        }
+        const model = createClientSummaryModel(client, state, createTestLogger())
+
+        assert.equal(await model.summarize(REQUEST, controller.signal), null)
+        assert.deepEqual(client.calls.map(c => c.method), ["session.create", "session.prompt", "session.abort", "session.delete"])
+        assert.equal(client.calls[2].args.path.id, client.calls[3].args.path.id)
+        assert.equal(state.internalSessions.size, 0)
+    })
+})
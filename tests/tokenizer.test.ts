@@ -0,0 +1,89 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import {
+    DEFAULT_TOKENIZER,
+    estimateDataArrayTokens,
+    estimateMessageTokens,
+    estimateTokens,
+    formatTokenCount,
+    getSessionTokenizer,
+    getTokenizerStrategy
+} from "../lib/tokenizer"
+import { detectFormat } from "../lib/fetch-wrapper"
+import { createPluginState } from "../lib/state"
+
+const ANTHROPIC = getTokenizerStrategy({ providerID: "anthropic", modelID: "claude-sonnet-4-5" })
+
+describe("getTokenizerStrategy", () => {
+    it("picks the strategy from the model family before the provider", () => {
+        assert.equal(getTokenizerStrategy({ providerID: "openrouter", modelID: "anthropic/claude-opus-4" }).name, "anthropic")
+        assert.equal(getTokenizerStrategy({ providerID: "openrouter", modelID: "google/gemma-3-27b" }).name, "gemini")
+        assert.equal(getTokenizerStrategy({ providerID: "azure", modelID: "gpt-4o-mini" }).name, "openai-o200k")
+        assert.equal(getTokenizerStrategy({ providerID: "openai", modelID: "o3" }).name, "openai-o200k")
+        assert.equal(getTokenizerStrategy({ providerID: "openai", modelID: "gpt-4-turbo" }).name, "openai-cl100k")
+        assert.equal(getTokenizerStrategy({ providerID: "amazon-bedrock", modelID: "meta.llama3-70b" }).name, "open-weights")
+    })
+
+    it("falls back to the provider, then to the default strategy", () => {
+        assert.equal(getTokenizerStrategy({ providerID: "google-vertex", modelID: "custom-tuned" }).name, "gemini")
+        assert.equal(getTokenizerStrategy({ providerID: "local", modelID: "my-model" }), DEFAULT_TOKENIZER)
+        assert.equal(getTokenizerStrategy(undefined), DEFAULT_TOKENIZER)
+    })
+})
+
+describe("getSessionTokenizer", () => {
+    it("uses the session's cached model, and the default without a session or model", () => {
+        const state = createPluginState()
+        state.model.set("ses_claude", { providerID: "anthropic", modelID: "claude-sonnet-4-5" })
+
+        assert.equal(getSessionTokenizer(state, "ses_claude").name, "anthropic")
+        assert.equal(getSessionTokenizer(state, "ses_unknown"), DEFAULT_TOKENIZER)
+        assert.equal(getSessionTokenizer(state, null), DEFAULT_TOKENIZER)
+    })
+})
+
+describe("estimateTokens", () => {
+    it("divides narrow characters by the strategy's characters per token, rounding up", () => {
+        assert.equal(estimateTokens(undefined), 0)
+        assert.equal(estimateTokens(""), 0)
+        assert.equal(estimateTokens("abcd"), 1)
+        assert.equal(estimateTokens("abcde"), 2)
+        assert.equal(estimateTokens("a".repeat(70), ANTHROPIC), 20)
+    })
+
+    it("counts CJK characters as one token each", () => {
+        assert.equal(estimateTokens("日本語のテキスト"), 8)
+        assert.equal(estimateTokens("한국어"), 3)
+        assert.equal(estimateTokens("abcd中文"), 3)
+    })
+})
+
+describe("message estimates", () => {
+    const format = detectFormat({ model: "gpt-4o", messages: [{ role: "user", content: "hi" }] })!
+
+    it("adds the format's per-message overhead to every string in the message", () => {
+        const message = { role: "user", content: [{ type: "text", text: "a".repeat(40) }] }
+        // "user" 1, "text" 1, the text 10, plus 4 per message
+        assert.equal(estimateMessageTokens(message, format), 16)
+    })
+
+    it("counts an image part as a flat cost instead of its payload", () => {
+        const message = { role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64," + "A".repeat(100_000) } }] }
+        assert.equal(estimateMessageTokens(message, format), 4 + 1 + 1000)
+    })
+
+    it("adds the per-request overhead to a data array, and uses the default overhead for unknown formats", () => {
+        const messages = [{ role: "user", content: "abcd" }, { role: "assistant", content: "abcd" }]
+        // 3 per request, then 4 per message plus the role and the content
+        assert.equal(estimateDataArrayTokens(messages, format), 3 + (4 + 1 + 1) + (4 + 3 + 1))
+        assert.equal(estimateDataArrayTokens(messages, { ...format, name: "custom" }), estimateDataArrayTokens(messages, format))
+    })
+})
+
+describe("formatTokenCount", () => {
+    it("shows thousands with one decimal, dropping a trailing .0", () => {
+        assert.equal(formatTokenCount(850), "850 tokens")
+        assert.equal(formatTokenCount(1000), "1K tokens")
+        assert.equal(formatTokenCount(1234), "1.2K tokens")
+    })
+})
@@ -0,0 +1,106 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { enrichToolOutputs, indexSessionMessages, indexToolPart } from "../lib/tool-index"
+import { createEventHandler, createToolExecuteAfterHandler, createToolExecuteBeforeHandler } from "../lib/hooks"
+import { detectFormat, processRequest } from "../lib/fetch-wrapper"
+import { defaultConfig } from "../lib/config"
+import { createPluginState } from "../lib/state"
+import type { ToolOutput } from "../lib/fetch-wrapper"
+import { buildBody, buildSessionMessages, createStubClient, createTestLogger, type ToolCallSpec } from "./helpers"
+
+const SESSION_ID = "ses_indexed"
+
+const CALLS: ToolCallSpec[] = [
+    { id: "call_read", name: "read", output: "file contents" },
+    { id: "call_bash", name: "bash", output: "test output" }
+]
+
+function toolPart(callID: string, tool: string, state: any) {
+    return { type: "tool", sessionID: SESSION_ID, callID, tool, state }
+}
+
+describe("tool metadata index", () => {
+    it("enriches outputs of formats that only carry call IDs", () => {
+        const state = createPluginState()
+        const messages = buildSessionMessages(CALLS)
+        messages[0].parts[0].state.input = { filePath: "src/index.ts" }
+        messages[0].parts[0].state.time = { start: 1000, end: 1200 }
+        assert.equal(indexSessionMessages(state, SESSION_ID, messages), 2)
+
+        const body = buildBody("bedrock", CALLS)
+        const format = detectFormat(body)!
+        const outputs = enrichToolOutputs(state, format.extractToolOutputs(format.getDataArray(body)!, state, SESSION_ID))
+
+        assert.deepEqual(outputs[0], {
+            id: "call_read",
+            toolName: "read",
+            content: "file contents",
+            parameters: { filePath: "src/index.ts" },
+            status: "completed",
+            startedAt: 1000,
+            completedAt: 1200
+        })
+        assert.equal(outputs[1].toolName, "bash")
+        assert.equal(state.toolCallSessions.get("call_read"), SESSION_ID)
+    })
+
+    it("keeps the furthest status and earliest start when updates arrive out of order", () => {
+        const state = createPluginState()
+        indexToolPart(state, SESSION_ID, toolPart("call_1", "Read", {
+            status: "completed", input: { filePath: "a.ts" }, time: { start: 2000, end: 2500 }
+        }))
+        indexToolPart(state, SESSION_ID, toolPart("call_1", "read", {
+            status: "running", input: {}, time: { start: 1500 }
+        }))
+
+        assert.deepEqual(state.toolParameters.get("call_1"), {
+            tool: "read",
+            parameters: { filePath: "a.ts" },
+            status: "completed",
+            startedAt: 1500,
+            completedAt: 2500
+        })
+    })
+
+    it("is fed by tool part events and the tool.execute hooks", async () => {
+        const state = createPluginState()
+        const logger = createTestLogger()
+        const onEvent = createEventHandler(createStubClient(), state, logger)
+
+        await onEvent({ event: { type: "message.part.updated", properties: { part: toolPart("call_edit", "edit", { status: "pending", input: {} }) } } })
+        assert.equal(state.toolParameters.get("call_edit")?.status, "pending")
+
+        await createToolExecuteBeforeHandler(state, logger)(
+            { tool: "edit", sessionID: SESSION_ID, callID: "call_edit" },
+            { args: { filePath: "b.ts" } }
+        )
+        assert.equal(state.toolParameters.get("call_edit")?.status, "running")
+        assert.deepEqual(state.toolParameters.get("call_edit")?.parameters, { filePath: "b.ts" })
+
+        await createToolExecuteAfterHandler(state, defaultConfig, logger)(
+            { tool: "edit", sessionID: SESSION_ID, callID: "call_edit" },
+            { title: "", output: "done", metadata: {} }
+        )
+        const metadata = state.toolParameters.get("call_edit")!
+        assert.equal(metadata.status, "completed")
+        assert.ok(metadata.completedAt! >= metadata.startedAt!)
+    })
+
+    it("passes enriched outputs to interceptors", async () => {
+        const state = createPluginState()
+            indexSessionMessages(state, SESSION_ID, buildSessionMessages(CALLS))
+
+        let seen: ToolOutput[] = []
+        await processRequest(
+            buildBody("anthropic", CALLS),
+            { state, logger: createTestLogger(), client: createStubClient(), config: defaultConfig, sessionId: null },
+            "https://api.anthropic.com/v1/messages",
+            (body, _format, _data, toolOutputs) => {
+                seen = toolOutputs
+                return { body, modified: false }
+            }
+        )
+
+        assert.deepEqual(seen.map(o => [o.toolName, o.status]), [["read", "completed"], ["bash", "completed"]])
+    })
+})
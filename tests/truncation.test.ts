@@ -0,0 +1,133 @@
+import { describe, it, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtemp, rm, utimes } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+import { OutputStore } from "../lib/core/output-store"
+import { createTruncationInterceptor, truncateOutput, type TruncationConfig } from "../lib/core/truncation"
+import { readByteRange, readLineRange } from "../lib/tools/context-retrieve"
+import { defaultConfig } from "../lib/config"
+import { detectFormat } from "../lib/fetch-wrapper"
+import { createPluginState } from "../lib/state"
+import { DEFAULT_TOKENIZER } from "../lib/tokenizer"
+import { buildBody, createStubClient, createTestLogger } from "./helpers"
+
+const SESSION_ID = "ses_truncation"
+
+function numberedLines(count: number): string {
+    return Array.from({ length: count }, (_, i) => `line ${i + 1} ${"x".repeat(30)}`).join("\n")
+}
+
+describe("truncation", () => {
+    let directory: string
+    let store: OutputStore
+
+    before(async () => {
+        directory = await mkdtemp(join(tmpdir(), "dcp-outputs-"))
+        store = new OutputStore(directory, 7, createTestLogger())
+    })
+
+    after(async () => {
+        await rm(directory, { recursive: true, force: true })
+    })
+
+    it("keeps the head and tail on line boundaries and names the omitted range", () => {
+        const text = numberedLines(1000)
+        const truncated = truncateOutput(text, 500, DEFAULT_TOKENIZER, store)!
+
+        const match = truncated.match(/lines (\d+)-(\d+) of 1000, bytes (\d+)-(\d+).*handle (h_[0-9a-f]{12})/)
+        assert.ok(match, truncated.slice(0, 200))
+        const [, firstLine, lastLine, firstByte, lastByte, handle] = match
+        const lines = text.split("\n")
+
+        assert.ok(truncated.startsWith(lines.slice(0, Number(firstLine) - 1).join("\n") + "\n"))
+        assert.ok(truncated.endsWith("\n" + lines.slice(Number(lastLine)).join("\n")))
+
+        // The omitted part can be read back exactly, by line or by byte
+        const omitted = lines.slice(Number(firstLine) - 1, Number(lastLine)).join("\n")
+        const byLine = readLineRange(store.get(handle)!, handle, Number(firstLine), Number(lastLine), 100000)
+        assert.equal(byLine.split("\n").slice(1).join("\n"), omitted)
+        const byByte = readByteRange(store.get(handle)!, handle, Number(firstByte), Number(lastByte), 100000)
+        assert.equal(byByte.split("\n").slice(1).join("\n"), omitted + "\n")
+    })
+
+    it("gives the same output the same handle", () => {
+        const text = numberedLines(500)
+        assert.equal(truncateOutput(text, 200, DEFAULT_TOKENIZER, store), truncateOutput(text, 200, DEFAULT_TOKENIZER, store))
+        assert.equal(truncateOutput("short", 200, DEFAULT_TOKENIZER, store), null)
+    })
+
+    it("cuts long ranges short and says where to continue", () => {
+        const text = numberedLines(1000)
+        const result = readLineRange(text, "h_000000000000", 1, 1000, 100)
+        assert.match(result, /continue from line (\d+)/)
+        assert.ok(result.length < text.length)
+    })
+
+    it("keeps stored outputs that are stored again or read, and deletes those left untouched", async () => {
+        const expiring = await mkdtemp(join(tmpdir(), "dcp-outputs-"))
+        try {
+            const first = new OutputStore(expiring, 7, createTestLogger())
+            const [read, stored, untouched] = ["read", "stored", "untouched"].map(label => first.put(`${label} ${numberedLines(10)}`)!)
+            const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000)
+            for (const handle of [read, stored, untouched]) {
+                await utimes(join(expiring, `${handle}.txt`), tenDaysAgo, tenDaysAgo)
+            }
+
+            // A later process, e.g. after a restart that restored the session
+            const later = new OutputStore(expiring, 7, createTestLogger())
+            assert.ok(later.get(read))
+            assert.equal(later.put(`stored ${numberedLines(10)}`), stored)
+
+            assert.ok(later.get(read))
+            assert.ok(later.get(stored))
+            assert.equal(later.get(untouched), null)
+        } finally {
+            await rm(expiring, { recursive: true, force: true })
+        }
+    })
+
+    it("rejects malformed handles", () => {
+        assert.equal(store.get("../../etc/passwd"), null)
+        assert.equal(store.get("h_ffffffffffff"), null)
+    })
+
+    it("applies per-tool limits", async () => {
+        const config: TruncationConfig = {
+            ...structuredClone(defaultConfig.truncation),
+            defaultMaxTokens: 1000,
+            maxTokens: { bash: 0 },
+            keepTokens: 200
+        }
+        const state = createPluginState()
+        state.toolParameters.set("call_read", { tool: "read" })
+        state.toolParameters.set("call_bash", { tool: "bash" })
+        const body = buildBody("openai-chat", [
+            { id: "call_read", name: "read", output: numberedLines(1000) },
+            { id: "call_bash", name: "bash", output: numberedLines(1000) }
+        ])
+        const format = detectFormat(body)!
+        const ctx = { state, logger: createTestLogger(), client: createStubClient(), config: defaultConfig, sessionId: SESSION_ID }
+
+        const interceptor = createTruncationInterceptor(config, store)
+        const result = await interceptor(body, format, body.messages, format.extractToolOutputs(body.messages, state, SESSION_ID), "", ctx)
+
+        assert.equal(result.modified, true)
+        const [read, bash] = format.extractToolOutputs(body.messages, state, SESSION_ID)
+        assert.match(read.content!, /truncated to save context/)
+        assert.equal(bash.content, numberedLines(1000))
+        assert.deepEqual([...state.truncations.get(SESSION_ID)!], [["call_read", read.content]])
+    })
+
+    it("leaves subagent sessions with the light policy alone", async () => {
+        const state = createPluginState()
+        const body = buildBody("openai-chat", [{ id: "call_read", name: "read", output: numberedLines(1000) }])
+        const format = detectFormat(body)!
+        const ctx = { state, logger: createTestLogger(), client: createStubClient(), config: defaultConfig, sessionId: SESSION_ID, subagentPolicy: "light" as const }
+
+        const interceptor = createTruncationInterceptor(defaultConfig.truncation, store)
+        const result = await interceptor(body, format, body.messages, format.extractToolOutputs(body.messages, state, SESSION_ID), "", ctx)
+
+        assert.equal(result.modified, false)
+    })
+})